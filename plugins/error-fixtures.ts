@@ -0,0 +1,72 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import type { Plugin, ResolvedConfig } from "vite";
+
+/**
+ * Dev-server plugin that serves broken videos, so each kind of ScrollyVideo
+ * failure (see src/lib/video-errors.ts) can be triggered on purpose. The
+ * dev-only stories in fixtures/ point at them; nothing here is built or
+ * deployed.
+ *
+ * - /@error-fixtures/decode.webm: fixtures/broken.webm, a truncated WebM
+ * - /@error-fixtures/network.webm: the start of that file, then the
+ *   connection drops
+ * - /@error-fixtures/unsupported.webm: bytes that aren't a video at all
+ * - /@error-fixtures/timeout.webm: never answers
+ *
+ * HEAD requests (the frame cache's version check) are always answered, so
+ * the failure happens where the video itself is loaded.
+ */
+
+const DEV_PREFIX = "@error-fixtures";
+const FIXTURE = "fixtures/broken.webm";
+
+export default function errorFixtures(): Plugin {
+    let config: ResolvedConfig;
+
+    return {
+        name: "error-fixtures",
+        apply: "serve",
+
+        configResolved(resolvedConfig) {
+            config = resolvedConfig;
+        },
+
+        configureServer(server) {
+            server.middlewares.use(async (req, res, next) => {
+                const match = req.url?.match(new RegExp(`/${DEV_PREFIX}/(\\w+)\\.webm$`));
+                if (!match) return next();
+
+                res.setHeader("Content-Type", "video/webm");
+                res.setHeader("Cache-Control", "no-store");
+                if (req.method === "HEAD") return res.end();
+
+                switch (match[1]) {
+                    case "decode":
+                        res.end(await readFile(path.join(config.root, FIXTURE)));
+                        return;
+
+                    case "network": {
+                        // Promise more than is sent, so the cut-off reads as a failed download
+                        const data = await readFile(path.join(config.root, FIXTURE));
+                        res.setHeader("Content-Length", data.length * 16);
+                        res.write(data.subarray(0, data.length / 2));
+                        setTimeout(() => res.destroy(), 100);
+                        return;
+                    }
+
+                    case "unsupported":
+                        res.end("This is not a video.\n");
+                        return;
+
+                    case "timeout":
+                        // Left hanging until the browser gives up on it
+                        return;
+
+                    default:
+                        return next();
+                }
+            });
+        },
+    };
+}
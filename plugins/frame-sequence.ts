@@ -0,0 +1,287 @@
+import { createHash } from "crypto";
+import { readFile, stat } from "fs/promises";
+import path from "path";
+import type { Plugin, ResolvedConfig } from "vite";
+import type { FrameManifest } from "../src/lib/frame-manifest";
+import { fitDimensions, sampleFrameTimes } from "../src/lib/frame-sampling";
+import { demuxWebM } from "../src/lib/webm-demuxer";
+
+/**
+ * Vite plugin that pre-extracts frames from videos at build time, so visitors
+ * download a numbered image sequence instead of decoding video in the browser.
+ *
+ * Import a video with the `?frames` suffix to get a FrameManifest:
+ *
+ *     import intro from "@/assets/intro.webm?frames";
+ *     <ScrollyVideo frames={intro} containerRef={ref} />
+ *
+ * Decoding uses libav.js (WebAssembly) and encoding uses jpeg-js (pure JS), so
+ * this runs headlessly on CI without ffmpeg installed. Only WebM files with
+ * VP8/VP9 video are supported.
+ */
+
+// Matches `?frames` anywhere in the query; dev imports also carry Vite's `?import`
+const FRAMES_QUERY = /[?&]frames(?:&|$)/;
+const DEV_PREFIX = "@frame-sequence";
+
+export interface FrameSequenceOptions {
+    /**
+     * The maximum width (in pixels) of the generated frames. Defaults to 1920.
+     */
+    maxWidth?: number;
+
+    /**
+     * The maximum height (in pixels) of the generated frames. Defaults to 1080.
+     */
+    maxHeight?: number;
+
+    /**
+     * The maximum number of frames to extract from each video. Defaults to 60.
+     */
+    maxFrames?: number;
+
+    /**
+     * The base frames-per-second to assume when slicing frames from the video.
+     * Defaults to 30.
+     */
+    baseFps?: number;
+
+    /**
+     * JPEG quality (1-100). Defaults to 80.
+     */
+    quality?: number;
+}
+
+interface ExtractedFrame {
+    time: number;
+    data: Uint8Array;
+}
+
+interface ExtractedSequence {
+    width: number;
+    height: number;
+    duration: number;
+    frames: ExtractedFrame[];
+}
+
+/**
+ * Maps WebCodecs codec strings from our demuxer to libav.js decoder names.
+ */
+const DECODERS: Record<string, string> = {
+    vp8: "libvpx",
+    "vp09.00.10.08": "libvpx-vp9",
+};
+
+/**
+ * Decodes a WebM file and returns JPEG-encoded frames sampled the same way
+ * ScrollyVideo samples them in the browser.
+ */
+async function extractSequence(file: string, options: Required<FrameSequenceOptions>): Promise<ExtractedSequence> {
+    const { maxWidth, maxHeight, maxFrames, baseFps, quality } = options;
+
+    // 1) Demux
+    const buffer = await readFile(file);
+    const demuxed = demuxWebM(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength));
+    const decoderName = DECODERS[demuxed.codec];
+    if (!decoderName) {
+        throw new Error(`${file}: unsupported codec ${demuxed.codec} (only VP8/VP9 WebM is supported)`);
+    }
+
+    // 2) Work out output size and which timestamps to keep
+    const { width, height } = fitDimensions(demuxed.width, demuxed.height, maxWidth, maxHeight);
+    const targets = sampleFrameTimes(demuxed.duration, baseFps, maxFrames).map((t) => t * 1e6);
+    const tolerance = 1e6 / baseFps / 2;
+
+    // 3) Decode with libav.js, converting the frames we keep to RGBA and then JPEG
+    const { default: LibAV } = await import("@libav.js/variant-webm-vp9");
+    const { default: jpeg } = await import("jpeg-js");
+    const libav = await LibAV.LibAV({ noworker: true });
+
+    const [, codecCtx, pkt, frame] = await libav.ff_init_decoder(decoderName, { time_base: [1, 1e6] });
+    const rgbaFrame = await libav.av_frame_alloc();
+    let sws = 0;
+
+    const frames: ExtractedFrame[] = [];
+    let nextTarget = 0;
+
+    try {
+        const batchSize = 16;
+        for (let i = 0; i < demuxed.packets.length && nextTarget < targets.length; i += batchSize) {
+            const batch = demuxed.packets.slice(i, i + batchSize).map((packet) => ({
+                data: packet.data,
+                pts: packet.timestamp,
+                ptshi: 0,
+                dts: packet.timestamp,
+                dtshi: 0,
+                flags: packet.isKey ? 1 : 0,
+            }));
+            const isLast = i + batchSize >= demuxed.packets.length;
+            const decoded = await libav.ff_decode_multi(codecCtx, pkt, frame, batch, {
+                fin: isLast,
+                copyoutFrame: "ptr",
+            });
+
+            for (const framePtr of decoded) {
+                const timestamp = libav.i64tof64(
+                    await libav.AVFrame_pts(framePtr),
+                    await libav.AVFrame_ptshi(framePtr)
+                );
+
+                let data: Uint8Array | null = null;
+                while (nextTarget < targets.length && timestamp + tolerance >= targets[nextTarget]) {
+                    if (!data) {
+                        if (!sws) {
+                            sws = await libav.sws_getContext(
+                                await libav.AVFrame_width(framePtr),
+                                await libav.AVFrame_height(framePtr),
+                                await libav.AVFrame_format(framePtr),
+                                width,
+                                height,
+                                libav.AV_PIX_FMT_RGBA,
+                                2, // SWS_BILINEAR
+                                0,
+                                0,
+                                0
+                            );
+                        }
+                        await libav.sws_scale_frame(sws, rgbaFrame, framePtr);
+                        const rgba = await libav.ff_copyout_frame_video_packed(rgbaFrame);
+                        data = jpeg.encode({ data: rgba.data, width, height }, quality).data;
+                    }
+
+                    frames.push({ time: targets[nextTarget] / 1e6, data });
+                    nextTarget++;
+                }
+
+                await libav.av_frame_free_js(framePtr);
+            }
+        }
+    } finally {
+        if (sws) await libav.sws_freeContext(sws);
+        await libav.av_frame_free_js(rgbaFrame);
+        await libav.ff_free_decoder(codecCtx, pkt, frame);
+        libav.terminate();
+    }
+
+    return { width, height, duration: demuxed.duration, frames };
+}
+
+/**
+ * Extracts a video's first frame as a JPEG no larger than `maxWidth` x
+ * `maxHeight`, e.g. for link previews. The same WebM limits apply.
+ */
+export async function extractPosterFrame(
+    file: string,
+    maxWidth = 1200,
+    maxHeight = 630
+): Promise<{ data: Uint8Array; width: number; height: number }> {
+    const sequence = await extractSequence(file, { maxWidth, maxHeight, maxFrames: 1, baseFps: 30, quality: 85 });
+    const [frame] = sequence.frames;
+    if (!frame) throw new Error(`${file}: no frames could be decoded`);
+    return { data: frame.data, width: sequence.width, height: sequence.height };
+}
+
+export default function frameSequence(userOptions: FrameSequenceOptions = {}): Plugin {
+    const options: Required<FrameSequenceOptions> = {
+        maxWidth: 1920,
+        maxHeight: 1080,
+        maxFrames: 60,
+        baseFps: 30,
+        quality: 80,
+        ...userOptions,
+    };
+
+    let config: ResolvedConfig;
+
+    /**
+     * Extracted sequences keyed by a hash of the file path, its mtime and the
+     * options, so dev reloads don't re-decode unchanged videos.
+     */
+    const sequences = new Map<string, Promise<ExtractedSequence>>();
+
+    async function getSequence(file: string) {
+        const { mtimeMs } = await stat(file);
+        const key = createHash("sha1")
+            .update(JSON.stringify([file, mtimeMs, options]))
+            .digest("hex")
+            .slice(0, 12);
+
+        let sequence = sequences.get(key);
+        if (!sequence) {
+            sequence = extractSequence(file, options);
+            sequences.set(key, sequence);
+            // Don't cache failures, so fixing the file and reloading works
+            sequence.catch(() => sequences.delete(key));
+        }
+        return { key, sequence: await sequence };
+    }
+
+    return {
+        name: "frame-sequence",
+        enforce: "pre",
+
+        configResolved(resolvedConfig) {
+            config = resolvedConfig;
+        },
+
+        async resolveId(source, importer) {
+            if (!FRAMES_QUERY.test(source)) return null;
+
+            const [file] = source.split("?");
+            const resolved = await this.resolve(file, importer, { skipSelf: true });
+            return resolved ? `${resolved.id}?frames` : null;
+        },
+
+        async load(id) {
+            if (!FRAMES_QUERY.test(id)) return null;
+
+            const [file] = id.split("?");
+            this.addWatchFile(file);
+
+            const { key, sequence } = await getSequence(file);
+            const name = path.basename(file, path.extname(file));
+
+            // In builds, frames are emitted as assets and referenced by their final URL.
+            // In dev, they're served from memory by the middleware below.
+            const sources = sequence.frames.map((frame, index) => {
+                if (config.command === "build") {
+                    const referenceId = this.emitFile({
+                        type: "asset",
+                        name: `${name}-${String(index).padStart(4, "0")}.jpg`,
+                        source: frame.data,
+                    });
+                    return `import.meta.ROLLUP_FILE_URL_${referenceId}`;
+                }
+                return JSON.stringify(`${config.base}${DEV_PREFIX}/${key}/${index}.jpg`);
+            });
+
+            const entries = sequence.frames.map(
+                (frame, index) => `{ src: ${sources[index]}, time: ${frame.time} }`
+            );
+
+            const manifest: Omit<FrameManifest, "frames"> = {
+                frameCount: sequence.frames.length,
+                width: sequence.width,
+                height: sequence.height,
+                duration: sequence.duration,
+            };
+
+            return `export default { ...${JSON.stringify(manifest)}, frames: [${entries.join(", ")}] };`;
+        },
+
+        configureServer(server) {
+            server.middlewares.use(async (req, res, next) => {
+                const match = req.url?.match(new RegExp(`/${DEV_PREFIX}/(\\w+)/(\\d+)\\.jpg$`));
+                if (!match) return next();
+
+                const [, key, index] = match;
+                const frame = (await sequences.get(key)?.catch(() => undefined))?.frames[Number(index)];
+                if (!frame) return next();
+
+                res.setHeader("Content-Type", "image/jpeg");
+                res.setHeader("Cache-Control", "no-cache");
+                res.end(frame.data);
+            });
+        },
+    };
+}
@@ -0,0 +1,216 @@
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import { pathToFileURL } from "url";
+import { build, type Plugin, type ResolvedConfig } from "vite";
+import { extractPosterFrame } from "./frame-sequence";
+
+/**
+ * Vite plugin that pre-renders the site after a build, so crawlers and link
+ * previews see each page's text instead of an empty root:
+ *
+ * 1. Builds the server entry (src/entry-server.tsx) for Node
+ * 2. Renders each page it lists into a copy of index.html, with a title,
+ *    description, canonical link and Open Graph/Twitter card tags, at the
+ *    page's path (so deep links work on static hosts) or as 404.html
+ * 3. Writes a sitemap.xml listing the pages
+ *
+ * Without a preview image, the first frame of the page's first video is
+ * extracted (WebM only, as with `?frames`). main.tsx hydrates the markup.
+ */
+
+export interface PrerenderOptions {
+    /**
+     * The site's public URL, base path included, for the absolute links that
+     * sitemaps and link previews need, e.g. "https://example.com/app/".
+     */
+    siteUrl: string;
+
+    /**
+     * The server entry, relative to the project root. Defaults to "src/entry-server.tsx".
+     */
+    entry?: string;
+}
+
+/**
+ * A page as listed by the server entry's `getPages()`.
+ */
+interface PrerenderPage {
+    /** Where the page lives, relative to the site's base, e.g. "/". */
+    path: string;
+    title: string;
+    description?: string;
+
+    /** URL of the preview image. */
+    image?: string;
+
+    /** URL of a video to take a preview frame from when there's no image. */
+    video?: string;
+
+    /** Rendered as 404.html, for hosts that serve it for unknown URLs. */
+    notFound?: boolean;
+}
+
+/**
+ * What the server entry exports.
+ */
+interface PrerenderEntry {
+    getPages: () => PrerenderPage[];
+    render: (path: string) => string;
+}
+
+const PREVIEW_WIDTH = 1200;
+const PREVIEW_HEIGHT = 630;
+
+/**
+ * Where the server build goes, inside the client's output directory (and
+ * removed once done).
+ */
+const SERVER_DIR = ".prerender";
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+}
+
+/**
+ * The <head> tags describing `page`, served from `url`, with `image` as its preview.
+ */
+function getHeadTags(page: PrerenderPage, url: string, image?: { url: string; width?: number; height?: number }): string {
+    const meta = (attribute: "name" | "property", key: string, value: string | number | undefined) =>
+        value === undefined ? [] : [`<meta ${attribute}="${key}" content="${escapeHtml(String(value))}" />`];
+
+    return [
+        `<title>${escapeHtml(page.title)}</title>`,
+        ...meta("name", "description", page.description),
+        `<link rel="canonical" href="${escapeHtml(url)}" />`,
+        ...meta("property", "og:type", "website"),
+        ...meta("property", "og:url", url),
+        ...meta("property", "og:title", page.title),
+        ...meta("property", "og:description", page.description),
+        ...meta("property", "og:image", image?.url),
+        ...meta("property", "og:image:width", image?.width),
+        ...meta("property", "og:image:height", image?.height),
+        ...meta("name", "twitter:card", image ? "summary_large_image" : "summary"),
+        ...meta("name", "twitter:title", page.title),
+        ...meta("name", "twitter:description", page.description),
+        ...meta("name", "twitter:image", image?.url),
+    ].join("\n    ");
+}
+
+function getSitemap(urls: string[]): string {
+    const lastmod = new Date().toISOString().slice(0, 10);
+    const entries = urls.map((url) => `  <url>\n    <loc>${escapeHtml(url)}</loc>\n    <lastmod>${lastmod}</lastmod>\n  </url>`);
+    return [
+        `<?xml version="1.0" encoding="UTF-8"?>`,
+        `<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">`,
+        ...entries,
+        `</urlset>`,
+        "",
+    ].join("\n");
+}
+
+export default function prerender({ siteUrl, entry = "src/entry-server.tsx" }: PrerenderOptions): Plugin {
+    let config: ResolvedConfig;
+    const site = siteUrl.endsWith("/") ? siteUrl : `${siteUrl}/`;
+
+    /**
+     * Makes a URL from the app (e.g. a built asset's "/base/assets/x.jpg") absolute.
+     */
+    const toAbsoluteUrl = (url: string) => new URL(url, site).href;
+
+    /**
+     * Extracts a preview frame from `page.video` into the assets directory.
+     * Returns undefined (with a warning) if there's no video or it can't be decoded.
+     */
+    async function getPreviewFrame(page: PrerenderPage, outDir: string) {
+        // Built assets are served from the base; anything else isn't ours to decode
+        if (!page.video?.startsWith(config.base)) return undefined;
+        const file = path.join(outDir, page.video.slice(config.base.length));
+
+        try {
+            const frame = await extractPosterFrame(file, PREVIEW_WIDTH, PREVIEW_HEIGHT);
+            const name = `${path.basename(file, path.extname(file))}-preview.jpg`;
+            await writeFile(path.join(outDir, config.build.assetsDir, name), frame.data);
+            return {
+                url: toAbsoluteUrl(`${config.base}${config.build.assetsDir}/${name}`),
+                width: frame.width,
+                height: frame.height,
+            };
+        } catch (err) {
+            config.logger.warn(`Couldn't take a preview frame from ${page.video}: ${err instanceof Error ? err.message : err}`);
+            return undefined;
+        }
+    }
+
+    return {
+        name: "prerender",
+        apply: "build",
+
+        configResolved(resolvedConfig) {
+            config = resolvedConfig;
+        },
+
+        async closeBundle() {
+            // The server build below loads this config too
+            if (config.build.ssr) return;
+
+            const outDir = path.resolve(config.root, config.build.outDir);
+            const serverDir = path.join(outDir, SERVER_DIR);
+
+            try {
+                // 1) Build the server entry, with the same plugins so story media resolves to the same URLs
+                await build({
+                    configFile: config.configFile,
+                    mode: config.mode,
+                    logLevel: "warn",
+                    build: {
+                        ssr: entry,
+                        outDir: serverDir,
+                        emptyOutDir: true,
+                        copyPublicDir: false,
+                        rollupOptions: { output: { entryFileNames: "entry-server.js" } },
+                    },
+                });
+                const { getPages, render }: PrerenderEntry = await import(
+                    pathToFileURL(path.join(serverDir, "entry-server.js")).href
+                );
+
+                // 2) Render each page into the client's index.html
+                const template = await readFile(path.join(outDir, "index.html"), "utf-8");
+                const urls: string[] = [];
+
+                const pages = getPages();
+                for (const page of pages) {
+                    const url = new URL(page.path.replace(/^\//, ""), site).href;
+                    if (!page.notFound) urls.push(url);
+
+                    const image = page.image
+                        ? { url: toAbsoluteUrl(page.image) }
+                        : await getPreviewFrame(page, outDir);
+
+                    const head = page.notFound
+                        ? `<title>${escapeHtml(page.title)}</title>\n    <meta name="robots" content="noindex" />`
+                        : getHeadTags(page, url, image);
+                    const html = template
+                        .replace(/<title>.*<\/title>/s, head)
+                        .replace(`<div id="root"></div>`, `<div id="root">${render(page.path)}</div>`);
+
+                    const file = page.notFound
+                        ? path.join(outDir, "404.html")
+                        : path.join(outDir, page.path, "index.html");
+                    await mkdir(path.dirname(file), { recursive: true });
+                    await writeFile(file, html);
+                }
+
+                // 3) List them for crawlers
+                await writeFile(path.join(outDir, "sitemap.xml"), getSitemap(urls));
+                config.logger.info(`Pre-rendered ${pages.length} page(s) and wrote sitemap.xml`);
+            } finally {
+                await rm(serverDir, { recursive: true, force: true });
+            }
+        },
+    };
+}
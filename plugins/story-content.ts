@@ -0,0 +1,88 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import type { Plugin, ResolvedConfig } from "vite";
+import { isBundledMediaPath, StoryValidationError, validateStory } from "../src/lib/story";
+
+/**
+ * Vite plugin that loads `*.story.json` content files (see src/lib/story.ts),
+ * so editors can publish pages without touching TSX:
+ *
+ *     import story from "@/content/home.story.json";
+ *     <StoryRenderer story={story} />
+ *
+ * Every story is validated when it's loaded, so a broken file fails the build
+ * (or shows the error overlay in dev) with the path to each problem. Relative
+ * media paths are turned into imports, so videos and images get bundled.
+ */
+
+const STORY_FILE = /\.story\.json$/;
+
+// Vite's JSON plugin handles every id ending in ".json", so stories get a virtual id instead
+const VIRTUAL_PREFIX = "\0story-content:";
+const VIRTUAL_SUFFIX = ".js";
+
+/** Fields holding media paths that may need bundling. */
+const MEDIA_KEYS = ["video", "poster", "image", "src"];
+
+export default function storyContent(): Plugin {
+    let config: ResolvedConfig;
+
+    return {
+        name: "story-content",
+        enforce: "pre",
+
+        configResolved(resolvedConfig) {
+            config = resolvedConfig;
+        },
+
+        async resolveId(source, importer) {
+            if (!STORY_FILE.test(source)) return null;
+
+            const resolved = await this.resolve(source, importer, { skipSelf: true });
+            return resolved ? `${VIRTUAL_PREFIX}${resolved.id}${VIRTUAL_SUFFIX}` : null;
+        },
+
+        async load(id) {
+            if (!id.startsWith(VIRTUAL_PREFIX)) return null;
+
+            const file = id.slice(VIRTUAL_PREFIX.length, -VIRTUAL_SUFFIX.length);
+            const name = path.relative(config.root, file);
+            this.addWatchFile(file);
+
+            // 1) Parse and validate
+            let data: unknown;
+            try {
+                data = JSON.parse(await readFile(file, "utf-8"));
+            } catch (err) {
+                this.error(`${name}: not valid JSON (${err instanceof Error ? err.message : err})`);
+            }
+
+            let story;
+            try {
+                story = validateStory(data);
+            } catch (err) {
+                if (err instanceof StoryValidationError) this.error(`${name}: ${err.message}`);
+                throw err;
+            }
+
+            // 2) Swap bundled media paths for imports of them
+            const media: string[] = [];
+            const json = JSON.stringify(story, (key, value) => {
+                if (MEDIA_KEYS.includes(key) && typeof value === "string" && isBundledMediaPath(value)) {
+                    media.push(value);
+                    return `__STORY_MEDIA_${media.length - 1}__`;
+                }
+                return value;
+            });
+
+            const imports = await Promise.all(media.map(async (mediaPath, index) => {
+                const resolved = await this.resolve(mediaPath, file);
+                if (!resolved) this.error(`${name}: can't find ${mediaPath}`);
+                return `import media${index} from ${JSON.stringify(resolved.id)};`;
+            }));
+
+            const code = json.replace(/"__STORY_MEDIA_(\d+)__"/g, (_, index) => `media${index}`);
+            return `${imports.join("\n")}\nexport default ${code};`;
+        },
+    };
+}
@@ -1,155 +1,128 @@
-import { motion, useMotionValue, useScroll, useSpring } from "motion/react";
-import { useEffect, useRef, useState } from "react";
-import video from "@/assets/12827201_1920_1080_30fps.webm";
-import ScrollyVideo from "@/components/scrolly-video";
-import Header from "@/components/layout/header";
-import InfoCard from "@/components/info-card";
-
-export default function App() {
-    const [progress, setProgress] = useState(0);
-    const loading = progress < 100;
+import { AnimatePresence, motion, MotionConfig } from "motion/react";
+import { ReactNode, useCallback, useEffect, useState } from "react";
+import AnalyticsProvider from "@/components/analytics-provider";
+import LoadingOverlay from "@/components/loading-overlay";
+import NotFoundPage from "@/components/pages/not-found-page";
+import StoryIndexPage from "@/components/pages/story-index-page";
+import StoryPage from "@/components/pages/story-page";
+import Router from "@/components/router";
+import ScrollyVideoProvider from "@/components/scrolly-video-provider";
+import SoundProvider from "@/components/sound-provider";
+import { createBeaconSink, createConsoleSink } from "@/lib/analytics";
+import { QualitySelection } from "@/lib/quality";
+import { useRouter } from "@/lib/router";
+import { matchStoryRoute } from "@/lib/stories";
+import { ScrollyVideoError, ScrollyVideoErrorKind } from "@/lib/video-errors";
+
+const ERROR_MESSAGES: Record<ScrollyVideoErrorKind, string> = {
+    network: "Check your connection and reload the page to try again.",
+    timeout: "The video took too long to load. Reload the page to try again.",
+    decode: "The video couldn't be decoded in this browser.",
+    unsupported: "This browser can't play the video's format.",
+};
+
+const ANALYTICS_ENDPOINT = import.meta.env.VITE_ANALYTICS_ENDPOINT;
+const ANALYTICS_SINK = ANALYTICS_ENDPOINT
+    ? createBeaconSink(ANALYTICS_ENDPOINT)
+    : import.meta.env.DEV ? createConsoleSink() : null;
+
+function logQuality({ tier, rendition }: QualitySelection) {
+    console.info(`Scrolly video quality: ${tier.name} (${tier.maxWidth}x${tier.maxHeight}, ${tier.maxFrames} frames)`
+        + (rendition ? ` from ${rendition.src}` : ""));
+}
 
-    const scrollySectionRef = useRef<HTMLDivElement>(null);
-    const { scrollYProgress } = useScroll({
-        target: scrollySectionRef,
-        offset: ["start start", "end end"],
-    });
-    const scaleX = useSpring(scrollYProgress, {
-        stiffness: 100,
-        damping: 30,
-        restDelta: 0.001,
-    });
+interface AppProps {
+    /**
+     * The page to render, when pre-rendering. Defaults to the current URL's.
+     */
+    path?: string;
+}
 
-    const loadingMotion = useMotionValue(0);
-    const loadingBar = useSpring(loadingMotion, {
-        stiffness: 100,
-        damping: 30,
-        restDelta: 0.001,
-    });
+export default function App({ path }: AppProps) {
+    return (
+        // Skip transform animations for visitors who prefer reduced motion
+        <MotionConfig reducedMotion="user">
+            <Router path={path}>
+                <Layout />
+            </Router>
+        </MotionConfig>
+    );
+}
 
-    // Smoothly animate the number count-up effect
-    const progressMotion = useMotionValue(0);
-    const animatedProgress = useSpring(progressMotion, {
-        stiffness: 100,
-        damping: 20,
-        restDelta: 0.001,
-    });
+/**
+ * What every page shares: the loading overlay for the first one, one frame
+ * extraction queue and sound switch, analytics, and the transition between
+ * pages. The old page fades out (and unmounts, freeing its frames) before
+ * the new one fades in.
+ */
+function Layout() {
+    const { path } = useRouter();
+    const route = matchStoryRoute(path);
 
-    const [showSecondColor, setShowSecondColor] = useState(false);
-    const section2ref = useRef<HTMLDivElement>(null);
-    const { scrollYProgress: section2Progress } = useScroll({
-        target: section2ref,
-    });
-    section2Progress.on("change", (latest) => {
-        setShowSecondColor(latest > 0.5);
-    });
+    // Once frames span the whole timeline, the page is usable well before 100%
+    const [playable, setPlayable] = useState(false);
+    const handlePlayable = useCallback(() => setPlayable(true), []);
 
-    useEffect(() => {
-        loadingMotion.set(progress / 100);
-        progressMotion.set(progress);
-    }, [progress]);
+    // A failed video shows a fallback, but say so before revealing the page
+    const [error, setError] = useState<ScrollyVideoError | null>(null);
 
+    // Both belong to the story being shown, so start over on each page
     useEffect(() => {
-        if (loading) {
-            document.documentElement.style.overflow = "hidden";
-            window.scrollTo(0, 0);
-        } else {
-            document.documentElement.style.overflow = "";
-        }
-    }, [loading]);
+        setPlayable(false);
+        setError(null);
+    }, [path]);
+
+    // Only story pages have videos to wait for
+    const ready = route.type !== "story" || playable;
+
+    let page: ReactNode;
+    switch (route.type) {
+        case "index":
+            page = <StoryIndexPage />;
+            break;
+
+        case "story":
+            page = (
+                <StoryPage
+                    story={route.entry.story}
+                    onPlayable={handlePlayable}
+                    onError={setError}
+                    onQualityChange={logQuality}
+                />
+            );
+            break;
+
+        default:
+            page = <NotFoundPage />;
+    }
 
     return (
-        <>
-            <motion.div
-                className={"fixed inset-0 bg-black flex items-center justify-center z-50"}
-                initial={{ opacity: 1 }}
-                animate={{ opacity: loading ? 1 : 0 }}
-                transition={{ duration: 0.5 }}
-                style={{ pointerEvents: loading ? "auto" : "none" }}
+        // Cookie-free reading analytics, batched and sent as the visitor leaves
+        <AnalyticsProvider sink={ANALYTICS_SINK} page={path}>
+            <LoadingOverlay
+                ready={ready}
+                error={error && { title: "The video couldn't be loaded", message: ERROR_MESSAGES[error.kind] }}
             >
-                <div className="w-1/2">
-                    {/* Animated Loading Percentage */}
-                    <motion.h3 className="text-white text-center text-xl font-semibold">
-                        Loading <motion.span>{Math.floor(animatedProgress.get())}%</motion.span>
-                    </motion.h3>
-
-                    {/* Animated Progress Bar */}
-                    <div className="relative w-full h-6 bg-white rounded-full overflow-hidden shadow-xl">
-                        <motion.div
-                            className="origin-left h-full w-full bg-blue-400"
-                            style={{ scaleX: loadingBar }}
-                        />
-                    </div>
-
+                <div className="w-full bg-black">
+                    {/* Every video on the site shares one extraction queue and one progress total */}
+                    <ScrollyVideoProvider>
+                        {/* One sound switch for every soundtrack, off until the visitor turns it on */}
+                        <SoundProvider>
+                            <AnimatePresence mode="wait" initial={false}>
+                                <motion.div
+                                    key={path}
+                                    initial={{ opacity: 0 }}
+                                    animate={{ opacity: 1 }}
+                                    exit={{ opacity: 0 }}
+                                    transition={{ duration: 0.3 }}
+                                >
+                                    {page}
+                                </motion.div>
+                            </AnimatePresence>
+                        </SoundProvider>
+                    </ScrollyVideoProvider>
                 </div>
-            </motion.div>
-
-            <div className={"w-full cursor-auto sm:cursor-none bg-black"}>
-                <Header />
-
-                <section
-                    ref={scrollySectionRef}
-                    className="relative min-h-[200vh] bg-gray-50"
-                >
-                    <div className="sticky top-0 h-screen w-full">
-                        <ScrollyVideo
-                            video={video}
-                            containerRef={scrollySectionRef}
-                            className="h-full w-full object-cover -z-1"
-                            onLoadProgress={setProgress}
-                            maxFrames={60}
-                        />
-
-                        <motion.div
-                            className="absolute bottom-6 left-0 right-0 h-1 bg-red-500 origin-center"
-                            style={{ scaleX }}
-                        />
-                    </div>
-
-                    <div className="relative h-screen flex items-center justify-center text-white mt-[-100vh]">
-                        <h1
-                            className="text-4xl font-bold"
-                            style={{
-                                textShadow: "5 0 10px rgba(0, 0, 0, 0.8)",
-                            }}
-                        >
-                            Scrollable Video Demo
-                        </h1>
-                    </div>
-
-                    <div className="flex flex-col z-10">
-                        <InfoCard title="Section 1" image="https://placehold.co/400">
-                            Lorem ipsum dolor sit amet, consectetur adipiscing elit. Quisque tincidunt justo a velit commodo sollicitudin. Class aptent taciti sociosqu ad litora torquent per conubia nostra, per inceptos himenaeos. Maecenas et leo aliquet, auctor nunc at, placerat velit. Fusce non tempor est, vestibulum ornare libero. Vestibulum in elementum diam. Proin dictum ligula sit amet velit porta sollicitudin. Duis sem purus, semper quis risus semper, malesuada lacinia mauris.
-                        </InfoCard>
-
-                        <InfoCard title="Section 2">
-                            Aenean tincidunt libero et porta feugiat. Class aptent taciti sociosqu ad litora torquent per conubia nostra, per inceptos himenaeos. Sed posuere hendrerit congue. Fusce nec eros tortor. Donec nulla elit, vulputate a elit vitae, congue interdum turpis. Nunc ac euismod turpis. Donec ut leo egestas, dapibus tortor et, condimentum ligula.
-                        </InfoCard>
-
-                        <InfoCard title="Section 3">
-                            Praesent dictum, urna volutpat eleifend efficitur, metus augue viverra sapien, ut maximus ante lectus sed ligula. Curabitur facilisis euismod nunc, vitae imperdiet lacus suscipit id. Interdum et malesuada fames ac ante ipsum primis in faucibus. Duis eu urna in augue finibus lacinia. Nam congue enim ut lacus venenatis malesuada. Nullam nec dignissim mi. Cras dapibus lectus sit amet placerat facilisis. Suspendisse potenti.
-                        </InfoCard>
-                    </div>
-                </section>
-
-                <section className="h-[200vh]" ref={section2ref}>
-                    <motion.div
-                        className={"h-screen sticky top-0 left-0 flex flex-col items-center justify-center text-white"}
-                        initial={{ opacity: 0 }}
-                        animate={{ opacity: 1 }}
-                        transition={{ duration: 0.5 }}
-                        style={{
-                            backgroundColor: showSecondColor ? "#8B8982" : "#373F47",
-                            transition: "background-color 0.5s ease-in-out",
-                        }}
-                    >
-                        <h3 className="text-4xl font-bold mb-4">Next Section</h3>
-                        <p className="max-w-2xl text-center">
-                            Once we enter here, the video is no longer pinned.
-                        </p>
-                    </motion.div>
-                </section>
-            </div>
-        </>
+            </LoadingOverlay>
+        </AnalyticsProvider>
     );
 }
@@ -0,0 +1,74 @@
+import { useMotionValueEvent, useScroll } from "motion/react";
+import { ReactNode, useEffect, useMemo, useRef } from "react";
+import {
+    AnalyticsContext,
+    AnalyticsOptions,
+    AnalyticsSink,
+    createAnalytics,
+    SCROLL_DEPTH_MILESTONES,
+} from "@/lib/analytics";
+
+interface AnalyticsProviderProps extends AnalyticsOptions {
+    /**
+     * Where events are sent, e.g. `createBeaconSink(endpoint)`. Without one,
+     * nothing is tracked. Pass a stable object.
+     */
+    sink?: AnalyticsSink | null;
+
+    /**
+     * The current page, on sites with several. Scroll depth starts over on
+     * each one.
+     */
+    page?: string;
+
+    children: ReactNode;
+}
+
+/**
+ * AnalyticsProvider collects reading analytics from everything inside it
+ * (ScrollyVideos, cards, the loading overlay) and tracks how far down the
+ * page the visitor scrolls. Queued events are sent when the page is hidden
+ * or closed.
+ */
+export default function AnalyticsProvider({ sink, page, batchSize, flushInterval, children }: AnalyticsProviderProps) {
+    const analytics = useMemo(
+        () => (sink ? createAnalytics(sink, { batchSize, flushInterval }) : null),
+        [sink, batchSize, flushInterval]
+    );
+
+    useEffect(() => {
+        if (!analytics) return;
+
+        const handleVisibilityChange = () => {
+            if (document.visibilityState === "hidden") analytics.leave();
+        };
+        // Mobile browsers may discard a hidden page without another event,
+        // so hiding counts as leaving
+        document.addEventListener("visibilitychange", handleVisibilityChange);
+        window.addEventListener("pagehide", analytics.leave);
+        return () => {
+            document.removeEventListener("visibilitychange", handleVisibilityChange);
+            window.removeEventListener("pagehide", analytics.leave);
+            analytics.dispose();
+        };
+    }, [analytics]);
+
+    // Report each scroll depth milestone the first time it's reached
+    const { scrollYProgress } = useScroll();
+    const depthRef = useRef(0);
+    useEffect(() => {
+        depthRef.current = 0;
+    }, [page]);
+    useMotionValueEvent(scrollYProgress, "change", (progress) => {
+        const reached = SCROLL_DEPTH_MILESTONES.filter((depth) => depth > depthRef.current && progress >= depth);
+        if (!reached.length) return;
+        depthRef.current = reached[reached.length - 1];
+        reached.forEach((depth) => analytics?.track({ type: "scroll-depth", depth }));
+    });
+
+    return (
+        <AnalyticsContext.Provider value={analytics}>
+            {children}
+        </AnalyticsContext.Provider>
+    );
+}
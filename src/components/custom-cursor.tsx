@@ -1,30 +1,136 @@
-import { useEffect } from "react";
-import { motion, useMotionValue } from "motion/react";
+import { useEffect, useState } from "react";
+import { motion, useMotionValue, useReducedMotion, useSpring } from "motion/react";
+import { CursorVariantStyle, DEFAULT_CURSOR_VARIANTS, getCursorPosition, getCursorState } from "@/lib/cursor";
 
-function CustomCursor() {
-    // 1) Track mouse position
+interface CustomCursorProps {
+    /**
+     * Extra or replacement variants, by the name elements give in `data-cursor`.
+     */
+    variants?: Record<string, CursorVariantStyle>;
+
+    /**
+     * Show a ring that lags behind the cursor on a spring. Defaults to true.
+     */
+    trail?: boolean;
+}
+
+/**
+ * CustomCursor replaces the mouse pointer with a dot that reacts to what's
+ * under it; see src/lib/cursor.ts for the data attributes elements use. It
+ * only takes over while a mouse is in use, so touch and pen input keep the
+ * native behaviour, and with reduced motion the native cursor stays.
+ */
+function CustomCursor({ variants, trail = true }: CustomCursorProps) {
+    const reducedMotion = useReducedMotion();
+
+    // 1) Track where the cursor should be, and whether a mouse is in the window
     const cursorX = useMotionValue(0);
     const cursorY = useMotionValue(0);
+    const [mouse, setMouse] = useState(false);
+    const [inside, setInside] = useState(false);
+
+    // 2) What's under it
+    const [variant, setVariant] = useState("default");
+    const [label, setLabel] = useState<string>();
 
-    // 2) Listen to mousemove globally, update motion values
+    // A stiff spring smooths magnetic jumps; the trail lags well behind
+    const x = useSpring(cursorX, { stiffness: 1000, damping: 60 });
+    const y = useSpring(cursorY, { stiffness: 1000, damping: 60 });
+    const trailX = useSpring(cursorX, { stiffness: 150, damping: 20 });
+    const trailY = useSpring(cursorY, { stiffness: 150, damping: 20 });
+
+    const enabled = mouse && !reducedMotion;
+
+    // 3) Listen to the pointer globally, update motion values and state
     useEffect(() => {
-        const handleMouseMove = (e: MouseEvent) => {
-            cursorX.set(e.clientX);
-            cursorY.set(e.clientY);
+        if (reducedMotion) return;
+
+        let first = true;
+        const handlePointerMove = (e: PointerEvent) => {
+            const isMouse = e.pointerType === "mouse";
+            setMouse(isMouse);
+            if (!isMouse) return;
+
+            setInside(true);
+            const state = getCursorState(e.target);
+            const position = getCursorPosition(e.clientX, e.clientY, state.magnet);
+            cursorX.set(position.x);
+            cursorY.set(position.y);
+
+            // Don't fly in from the corner
+            if (first) {
+                x.jump(position.x);
+                y.jump(position.y);
+                trailX.jump(position.x);
+                trailY.jump(position.y);
+                first = false;
+            }
+        };
+        const handlePointerOver = (e: PointerEvent) => {
+            const state = getCursorState(e.target);
+            setVariant(state.variant);
+            setLabel(state.label);
+        };
+        const handlePointerOut = (e: PointerEvent) => {
+            if (!e.relatedTarget) setInside(false);
         };
-        window.addEventListener("mousemove", handleMouseMove);
-        return () => window.removeEventListener("mousemove", handleMouseMove);
-    }, [cursorX, cursorY]);
 
-    // 4) A styled circle that follows the mouse
+        window.addEventListener("pointermove", handlePointerMove);
+        window.addEventListener("pointerdown", handlePointerMove);
+        window.addEventListener("pointerover", handlePointerOver);
+        window.addEventListener("pointerout", handlePointerOut);
+        return () => {
+            window.removeEventListener("pointermove", handlePointerMove);
+            window.removeEventListener("pointerdown", handlePointerMove);
+            window.removeEventListener("pointerover", handlePointerOver);
+            window.removeEventListener("pointerout", handlePointerOut);
+        };
+    }, [reducedMotion, cursorX, cursorY, x, y, trailX, trailY]);
+
+    // 4) Hide the native cursor while ours is drawn
+    useEffect(() => {
+        if (!enabled) return;
+        document.documentElement.setAttribute("data-custom-cursor", "");
+        return () => document.documentElement.removeAttribute("data-custom-cursor");
+    }, [enabled]);
+
+    if (!enabled) return null;
+
+    const styles = { ...DEFAULT_CURSOR_VARIANTS, ...variants };
+    const style = styles[variant] ?? styles.default;
+    const visible = inside && style.size > 0;
+
+    // 5) A styled circle that follows the mouse, centered on it. Blending has
+    // to be set on the outermost element, which is what isolates it
     return (
-        <motion.div
-            className="hidden sm:block pointer-events-none fixed top-0 left-0 z-50 h-6 w-6 rounded-full bg-black/80 backdrop-blur-sm"
-            style={{
-                translateX: cursorX,
-                translateY: cursorY,
-            }}
-        />
+        <>
+            {trail && (
+                <motion.div
+                    aria-hidden
+                    className="pointer-events-none fixed top-0 left-0 z-[60]"
+                    style={{ x: trailX, y: trailY }}
+                    animate={{ opacity: visible && variant === "default" ? 1 : 0 }}
+                >
+                    <div className="absolute h-10 w-10 -translate-x-1/2 -translate-y-1/2 rounded-full border border-black/40 ring-1 ring-white/40" />
+                </motion.div>
+            )}
+
+            <motion.div
+                aria-hidden
+                className={"pointer-events-none fixed top-0 left-0 z-[60]" + (style.invert ? " mix-blend-difference" : "")}
+                style={{ x, y }}
+                animate={{ opacity: visible ? 1 : 0 }}
+            >
+                <motion.div
+                    className={"absolute flex -translate-x-1/2 -translate-y-1/2 items-center justify-center rounded-full text-xs font-semibold " + style.className}
+                    initial={false}
+                    animate={{ width: style.size, height: style.size }}
+                    transition={{ type: "spring", stiffness: 400, damping: 30 }}
+                >
+                    {label && <span className="px-2 text-center">{label}</span>}
+                </motion.div>
+            </motion.div>
+        </>
     );
 }
 
@@ -0,0 +1,163 @@
+import { useInView, useReducedMotion } from "motion/react";
+import { useEffect, useRef } from "react";
+
+/**
+ * A responsive image. `srcSet` and `sizes` work as on <img>; give `width`
+ * and `height` (the intrinsic size) so the card doesn't jump as it loads.
+ */
+export interface InfoCardImage {
+    src: string;
+    alt?: string;
+    srcSet?: string;
+    sizes?: string;
+    width?: number;
+    height?: number;
+}
+
+/**
+ * What an InfoCard can show next to its text:
+ * - "image": a single image
+ * - "gallery": several images in a grid
+ * - "video": a short muted loop, playing while in view
+ * - "embed": anything with an embed URL, such as a YouTube video or a
+ *   Lottie animation on a hosted player (e.g. lottie.host)
+ */
+export type InfoCardMedia =
+    | ({ type: "image" } & InfoCardImage)
+    | { type: "gallery"; images: InfoCardImage[] }
+    | { type: "video"; src: string; poster?: string; alt?: string }
+    | { type: "embed"; src: string; title: string; aspectRatio?: number };
+
+interface InfoCardMediaProps {
+    media: InfoCardMedia;
+
+    /**
+     * Load images right away instead of as they near the viewport, for cards
+     * above the fold. Defaults to false.
+     */
+    eager?: boolean;
+
+    /**
+     * Called with the images' combined load progress (0-100). Failed images
+     * count as loaded.
+     */
+    onLoadProgress?: (progress: number) => void;
+}
+
+function Image({ image, eager, className }: { image: InfoCardImage; eager: boolean; className: string }) {
+    return (
+        <img
+            src={image.src}
+            srcSet={image.srcSet}
+            sizes={image.sizes}
+            width={image.width}
+            height={image.height}
+            alt={image.alt ?? ""}
+            loading={eager ? "eager" : "lazy"}
+            decoding="async"
+            className={className}
+        />
+    );
+}
+
+/**
+ * A muted loop that plays only while on screen. With reduced motion it
+ * doesn't autoplay and shows controls instead.
+ */
+function LoopingVideo({ src, poster, alt }: { src: string; poster?: string; alt?: string }) {
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const inView = useInView(videoRef, { amount: 0.5 });
+    const reducedMotion = useReducedMotion();
+
+    useEffect(() => {
+        const video = videoRef.current;
+        if (!video || reducedMotion) return;
+        if (inView) video.play().catch(() => {});
+        else video.pause();
+    }, [inView, reducedMotion]);
+
+    return (
+        <video
+            ref={videoRef}
+            src={src}
+            poster={poster}
+            aria-label={alt}
+            muted
+            loop
+            playsInline
+            controls={!!reducedMotion}
+            preload="metadata"
+            className="w-full rounded"
+        />
+    );
+}
+
+/**
+ * The media half of an InfoCard.
+ */
+export default function InfoCardMedia({ media, eager = false, onLoadProgress }: InfoCardMediaProps) {
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    // Report how many of our images have loaded (or failed)
+    useEffect(() => {
+        const images = Array.from(containerRef.current?.querySelectorAll("img") ?? []);
+        if (!onLoadProgress || !images.length) return;
+
+        const update = () => {
+            const done = images.filter((image) => image.complete).length;
+            onLoadProgress((done / images.length) * 100);
+        };
+        update();
+        images.forEach((image) => {
+            image.addEventListener("load", update);
+            image.addEventListener("error", update);
+        });
+        return () => images.forEach((image) => {
+            image.removeEventListener("load", update);
+            image.removeEventListener("error", update);
+        });
+    }, [media, onLoadProgress]);
+
+    let content;
+    switch (media.type) {
+        case "image":
+            content = <Image image={media} eager={eager} className="h-auto w-full rounded object-cover" />;
+            break;
+
+        case "gallery":
+            content = (
+                <ul className="grid grid-cols-2 gap-2">
+                    {media.images.map((image, index) => (
+                        <li key={index} className="first:col-span-2">
+                            <Image image={image} eager={eager} className="aspect-square h-auto w-full rounded object-cover" />
+                        </li>
+                    ))}
+                </ul>
+            );
+            break;
+
+        case "video":
+            content = <LoopingVideo src={media.src} poster={media.poster} alt={media.alt} />;
+            break;
+
+        case "embed":
+            content = (
+                <iframe
+                    src={media.src}
+                    title={media.title}
+                    loading={eager ? "eager" : "lazy"}
+                    allow="autoplay; fullscreen; picture-in-picture"
+                    allowFullScreen
+                    className="w-full rounded border-0"
+                    style={{ aspectRatio: media.aspectRatio ?? 16 / 9 }}
+                />
+            );
+            break;
+    }
+
+    return (
+        <div ref={containerRef} className="w-full sm:max-w-1/3 shrink-0">
+            {content}
+        </div>
+    );
+}
@@ -1,33 +1,212 @@
+import { motion, useInView, Variants } from "motion/react";
+import { ReactNode, useId, useRef } from "react";
+import InfoCardMedia, { InfoCardMedia as InfoCardMediaContent } from "@/components/info-card-media";
+import { useDwellTime } from "@/lib/analytics";
+import { useLoadingProgress } from "@/lib/loading-progress";
+
+/**
+ * How much each card's images count towards the loading overlay's progress,
+ * relative to a page's video frames.
+ */
+const IMAGE_LOADING_WEIGHT = 0.1;
+
+/**
+ * - "text": a heading and body
+ * - "quote": the body as a pull quote, with an attribution
+ * - "stat": a large figure (`stat`) above the body
+ */
+export type InfoCardVariant = "text" | "quote" | "stat";
+
+export type InfoCardAlign = "left" | "right" | "center";
+
+/**
+ * How much scrolling the card takes up:
+ * - "tall": two screens on phones, one from `sm` up
+ * - "screen": one screen
+ * - "auto": just its content, plus some spacing
+ */
+export type InfoCardHeight = "tall" | "screen" | "auto";
+
+/**
+ * How the card comes into view: fading, rising, sliding in from its side,
+ * or zooming. "none" shows it as is.
+ */
+export type InfoCardAnimation = "none" | "fade" | "rise" | "slide" | "zoom";
+
+export interface InfoCardStat {
+    /** The figure itself, e.g. "87%" or "2.4M". */
+    value: string;
+    label?: string;
+}
+
 export interface InfoCardProps {
     title: string;
-    children: React.ReactNode;
+
+    /**
+     * The body. Text is wrapped in a paragraph; anything else (lists, links,
+     * several paragraphs) is rendered as is.
+     */
+    children: ReactNode;
+
+    /** Shorthand for an "image" `media` with no alt text. */
     image?: string;
+
+    media?: InfoCardMediaContent;
+
+    /** Load media right away rather than lazily. Defaults to false. */
+    eager?: boolean;
+
+    /** Defaults to "text". */
+    variant?: InfoCardVariant;
+
+    /** Who said it, for "quote" cards. */
+    attribution?: string;
+
+    /** The figure shown by "stat" cards. */
+    stat?: InfoCardStat;
+
+    /** Which side of the page the card sits on. Defaults to alternating, starting on the left. */
+    align?: InfoCardAlign;
+
+    /** Defaults to "tall". */
+    height?: InfoCardHeight;
+
+    /** Defaults to "none". */
+    animation?: InfoCardAnimation;
+
+    /**
+     * Play the animation in reverse when the card scrolls out of view, and
+     * again each time it comes back. Defaults to false: it plays once.
+     */
+    exit?: boolean;
+
+    /** Lets navigation link to the card. */
+    id?: string;
+}
+
+const ALIGN_CLASSES: Record<InfoCardAlign | "alternate", string> = {
+    alternate: "odd:place-self-end",
+    left: "w-full justify-start",
+    right: "w-full justify-end",
+    center: "w-full justify-center",
+};
+
+const HEIGHT_CLASSES: Record<InfoCardHeight, string> = {
+    tall: "h-[200vh] sm:h-screen",
+    screen: "h-screen",
+    auto: "py-24",
+};
+
+/**
+ * The hidden state of each animation; they all settle on `VISIBLE`.
+ * "slide" comes in from the card's own side.
+ */
+function getAnimationVariants(animation: InfoCardAnimation, align?: InfoCardAlign): Variants {
+    const VISIBLE = { opacity: 1, x: 0, y: 0, scale: 1 };
+    switch (animation) {
+        case "fade":
+            return { hidden: { opacity: 0 }, visible: VISIBLE };
+        case "rise":
+            return { hidden: { opacity: 0, y: 48 }, visible: VISIBLE };
+        case "slide":
+            return { hidden: { opacity: 0, x: align === "right" ? 64 : -64 }, visible: VISIBLE };
+        case "zoom":
+            return { hidden: { opacity: 0, scale: 0.9 }, visible: VISIBLE };
+        default:
+            return { hidden: VISIBLE, visible: VISIBLE };
+    }
 }
 
 function InfoCard({
     title,
     children,
     image,
+    media = image ? { type: "image", src: image } : undefined,
+    eager = false,
+    variant = "text",
+    attribution,
+    stat,
+    align,
+    height = "tall",
+    animation = "none",
+    exit = false,
+    id,
 }: InfoCardProps) {
+    const titleId = useId();
+
+    // Hold the loading overlay until eager images are in (or have failed);
+    // lazy ones only load near the viewport, so they'd never finish
+    const hasImages = media?.type === "image" || media?.type === "gallery";
+    const reportImageLoading = useLoadingProgress(hasImages && eager ? IMAGE_LOADING_WEIGHT : 0);
+
+    const cardRef = useRef<HTMLDivElement>(null);
+    const inView = useInView(cardRef, { amount: 0.3, once: !exit });
+    useDwellTime(cardRef, id ?? title);
+
+    const body = typeof children === "string"
+        ? <p className="text-base text-gray-700">{children}</p>
+        : <div className="space-y-2 text-base text-gray-700">{children}</div>;
+
+    let content: ReactNode;
+    switch (variant) {
+        case "quote":
+            content = (
+                <figure>
+                    <h2 id={titleId} className="text-sm font-semibold uppercase tracking-wide text-gray-500 mb-2">{title}</h2>
+                    <blockquote className="text-2xl font-serif italic [&_p]:text-2xl [&_p]:text-gray-900">
+                        {body}
+                    </blockquote>
+                    {attribution && <figcaption className="mt-4 text-gray-600">— {attribution}</figcaption>}
+                </figure>
+            );
+            break;
+
+        case "stat":
+            content = (
+                <div>
+                    <h2 id={titleId} className="text-sm font-semibold uppercase tracking-wide text-gray-500 mb-2">{title}</h2>
+                    {stat && (
+                        <p className="mb-4">
+                            <span className="block text-6xl font-bold text-gray-900">{stat.value}</span>
+                            {stat.label && <span className="block text-gray-600">{stat.label}</span>}
+                        </p>
+                    )}
+                    {body}
+                </div>
+            );
+            break;
+
+        default:
+            content = (
+                <div>
+                    <h2 id={titleId} className="text-xl font-semibold mb-2">{title}</h2>
+                    {body}
+                </div>
+            );
+    }
+
+    // Each card is a labelled region, and focusable so keyboard users can Tab
+    // from card to card (focusing scrolls it into view)
     return (
         <section
-            className="h-[200vh] sm:h-screen flex items-center odd:place-self-end"
+            id={id}
+            aria-labelledby={titleId}
+            className={"flex items-center " + HEIGHT_CLASSES[height] + " " + ALIGN_CLASSES[align ?? "alternate"]}
         >
-            <div className={"max-w-2xl bg-white/80 m-4 rounded drop-shadow-lg flex flex-col sm:flex-row gap-4 " + (image != null ? "px-10 py-5" : "p-10")}>
-                {image && (
-                    <img
-                        src={image}
-                        alt={title}
-                        className="aspect-square max-w-full sm:max-w-1/3"
-                    />
-                )}
-                <div>
-                    <h2 className="text-xl font-semibold mb-2">{title}</h2>
-                    <p className="text-base text-gray-700">{children}</p>
-                </div>
-            </div>
+            <motion.div
+                ref={cardRef}
+                tabIndex={0}
+                variants={getAnimationVariants(animation, align)}
+                initial="hidden"
+                animate={inView ? "visible" : "hidden"}
+                transition={{ duration: 0.6, ease: "easeOut" }}
+                className={"max-w-2xl bg-white/80 m-4 rounded drop-shadow-lg flex flex-col sm:flex-row gap-4 outline-none focus-visible:ring-4 focus-visible:ring-blue-400 " + (media != null ? "px-10 py-5" : "p-10")}
+            >
+                {media && <InfoCardMedia media={media} eager={eager} onLoadProgress={hasImages && eager ? reportImageLoading : undefined} />}
+                {content}
+            </motion.div>
         </section>
     );
 }
 
-export default InfoCard;
\ No newline at end of file
+export default InfoCard;
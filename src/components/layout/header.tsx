@@ -1,23 +1,142 @@
-import { motion, useScroll } from "motion/react";
-import { useState } from "react";
+import { motion, useMotionValueEvent, useReducedMotion, useScroll, useTransform } from "motion/react";
+import { MouseEvent, useEffect, useId, useState } from "react";
+import Link from "@/components/link";
+import { useScrollSpy } from "@/lib/scroll-spy";
 
-function Header() {
-    const { scrollYProgress } = useScroll();
-    const [bgOpacity, setBgOpacity] = useState(1);
+export interface HeaderLink {
+    /** The id of the element linked to. */
+    id: string;
+    label: string;
+}
+
+interface HeaderProps {
+    title: string;
+
+    /**
+     * The page's sections, in page order. The one being read is highlighted.
+     */
+    links?: HeaderLink[];
+
+    /**
+     * A link back up the site, e.g. to the list of stories, shown before the title.
+     */
+    back?: { to: string; label: string };
+}
+
+/**
+ * How far (in px) the page has to scroll before the header can hide.
+ */
+const HIDE_AFTER = 64;
+
+/**
+ * The page header: a title (optionally after a link back up the site), links
+ * to the page's sections with the current one highlighted, and a bar showing
+ * how far through the page the visitor is. It slides away while scrolling
+ * down and comes back on scrolling up. On small screens the links fold into
+ * a menu.
+ */
+function Header({ title, links = [], back }: HeaderProps) {
+    const { scrollY, scrollYProgress } = useScroll();
+    const reducedMotion = useReducedMotion();
+    const active = useScrollSpy(links.map((link) => link.id));
+
+    const [hidden, setHidden] = useState(false);
+    const [menuOpen, setMenuOpen] = useState(false);
+    const menuId = useId();
+
+    // Solid at the top of the page, see-through once scrolled
+    const backgroundColor = useTransform(scrollY, (y) => (y <= 0 ? "rgba(0, 0, 0, 1)" : "rgba(0, 0, 0, 0.8)"));
 
-    scrollYProgress.on("change", (latest) => {
-        setBgOpacity(latest === 0 ? 1 : 0.8);
+    // Hide on the way down, reveal on the way up
+    useMotionValueEvent(scrollY, "change", (y) => {
+        const previous = scrollY.getPrevious() ?? 0;
+        setHidden(y > previous && y > HIDE_AFTER);
     });
 
+    // Close the menu with Escape
+    useEffect(() => {
+        if (!menuOpen) return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === "Escape") setMenuOpen(false);
+        };
+        window.addEventListener("keydown", handleKeyDown);
+        return () => window.removeEventListener("keydown", handleKeyDown);
+    }, [menuOpen]);
+
+    function handleLinkClick(e: MouseEvent<HTMLAnchorElement>, id: string) {
+        const target = document.getElementById(id);
+        if (!target) return;
+
+        e.preventDefault();
+        setMenuOpen(false);
+        target.scrollIntoView({ behavior: reducedMotion ? "auto" : "smooth" });
+        history.pushState(null, "", `#${id}`);
+    }
+
+    const renderLinks = () => links.map((link) => (
+        <li key={link.id}>
+            <a
+                href={`#${link.id}`}
+                aria-current={link.id === active ? "location" : undefined}
+                onClick={(e) => handleLinkClick(e, link.id)}
+                className="block rounded px-3 py-2 text-sm opacity-75 hover:opacity-100 focus-visible:opacity-100 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-400 aria-[current]:opacity-100 aria-[current]:bg-white/15"
+            >
+                {link.label}
+            </a>
+        </li>
+    ));
+
     return (
         <motion.header
-            className="sticky top-0 left-0 h-16 text-white flex items-center px-4 z-10"
-            style={{ backgroundColor: `rgba(0, 0, 0, ${bgOpacity})` }}
-            transition={{ duration: 0.5 }}
+            className="sticky top-0 left-0 text-white z-10"
+            style={{ backgroundColor }}
+            animate={{ y: hidden && !menuOpen ? "-100%" : 0 }}
+            transition={{ duration: 0.3 }}
         >
-            <h1 className="text-lg font-semibold">Placeholder</h1>
+            <div className="h-16 flex items-center gap-4 px-4">
+                {back && (
+                    <Link
+                        to={back.to}
+                        className="rounded px-2 py-1 text-sm opacity-75 hover:opacity-100 focus-visible:opacity-100 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-400"
+                    >
+                        <span aria-hidden>← </span>{back.label}
+                    </Link>
+                )}
+                <h1 className="text-lg font-semibold mr-auto">{title}</h1>
+
+                {links.length > 0 && (
+                    <>
+                        <nav aria-label="Sections" className="hidden sm:block">
+                            <ul className="flex gap-1">{renderLinks()}</ul>
+                        </nav>
+
+                        <button
+                            type="button"
+                            aria-expanded={menuOpen}
+                            aria-controls={menuId}
+                            onClick={() => setMenuOpen((open) => !open)}
+                            className="sm:hidden rounded px-3 py-2 text-sm font-semibold focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-400"
+                        >
+                            {menuOpen ? "Close" : "Menu"}
+                        </button>
+                    </>
+                )}
+            </div>
+
+            {menuOpen && (
+                <nav id={menuId} aria-label="Sections" className="sm:hidden border-t border-white/15 px-2 pb-2">
+                    <ul className="flex flex-col">{renderLinks()}</ul>
+                </nav>
+            )}
+
+            {/* How far through the page we are */}
+            <motion.div
+                aria-hidden
+                className="absolute bottom-0 left-0 right-0 h-0.5 bg-blue-400 origin-left"
+                style={{ scaleX: scrollYProgress }}
+            />
         </motion.header>
     );
 }
 
-export default Header;
\ No newline at end of file
+export default Header;
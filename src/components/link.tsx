@@ -0,0 +1,26 @@
+import { AnchorHTMLAttributes, MouseEvent } from "react";
+import { toHref, useRouter } from "@/lib/router";
+
+interface LinkProps extends Omit<AnchorHTMLAttributes<HTMLAnchorElement>, "href"> {
+    /** A router path below the site's base, e.g. "/" or "/home/". */
+    to: string;
+}
+
+/**
+ * A link to another page of the site, followed without a reload. Clicks with
+ * a modifier key (to open a new tab, say) are left to the browser.
+ */
+export default function Link({ to, onClick, target, ...props }: LinkProps) {
+    const { navigate } = useRouter();
+
+    function handleClick(e: MouseEvent<HTMLAnchorElement>) {
+        onClick?.(e);
+        if (e.defaultPrevented || e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+        if (target && target !== "_self") return;
+
+        e.preventDefault();
+        navigate(to);
+    }
+
+    return <a href={toHref(to)} target={target} onClick={handleClick} {...props} />;
+}
@@ -0,0 +1,293 @@
+import { AnimatePresence, motion, MotionValue, useMotionValue, useSpring, useTransform } from "motion/react";
+import { ReactNode, useEffect, useId, useMemo, useRef, useState } from "react";
+import { useAnalytics } from "@/lib/analytics";
+import { createLoadingTracker, LoadingProgressContext } from "@/lib/loading-progress";
+
+export type LoadingOverlayTheme = "dark" | "light";
+
+/**
+ * What a custom `template` gets to render the overlay's content with.
+ */
+export interface LoadingTemplateProps {
+    /** Smoothed progress (0-100); pass it straight to motion components. */
+    progress: MotionValue<number>;
+
+    /** The same progress, rounded, for text and aria-valuenow. */
+    value: number;
+
+    /** Hides the overlay; undefined until the skip button is due. */
+    skip?: () => void;
+}
+
+/**
+ * A failure to show in place of the progress, with a button to carry on.
+ */
+export interface LoadingOverlayError {
+    title: string;
+    message?: string;
+}
+
+interface LoadingOverlayProps {
+    /**
+     * The page. Anything inside can report progress with `useLoadingProgress`.
+     */
+    children: ReactNode;
+
+    /**
+     * Hide the overlay even though some sources are still loading, e.g. once
+     * the first video has enough frames to scroll. Defaults to false.
+     */
+    ready?: boolean;
+
+    /**
+     * How much waiting for web fonts counts towards the total, relative to a
+     * source of weight 1. 0 ignores fonts. Defaults to 0.1.
+     */
+    fontsWeight?: number;
+
+    /**
+     * The shortest time (in ms) the overlay stays up, so it doesn't just
+     * flash on fast loads. Defaults to 500.
+     */
+    minDuration?: number;
+
+    /**
+     * After how long (in ms) a "Skip" button appears, or false for never.
+     * Defaults to 3000.
+     */
+    skipAfter?: number | false;
+
+    /**
+     * Defaults to "dark".
+     */
+    theme?: LoadingOverlayTheme;
+
+    /**
+     * Replaces the default percentage and progress bar.
+     */
+    template?: (props: LoadingTemplateProps) => ReactNode;
+
+    /**
+     * Shown instead of the progress while set, keeping the overlay up until
+     * it's dismissed. Ignored once the overlay has gone; the page handles
+     * later failures itself.
+     */
+    error?: LoadingOverlayError | null;
+}
+
+const THEMES: Record<LoadingOverlayTheme, { overlay: string; track: string; bar: string; button: string }> = {
+    dark: {
+        overlay: "bg-black text-white",
+        track: "bg-white",
+        bar: "bg-blue-400",
+        button: "bg-white text-black",
+    },
+    light: {
+        overlay: "bg-white text-black",
+        track: "bg-gray-200",
+        bar: "bg-blue-600",
+        button: "bg-black text-white",
+    },
+};
+
+/**
+ * LoadingOverlay covers the page until everything inside it has loaded. It
+ * averages the progress of every source registered with
+ * `useLoadingProgress`, locks scrolling while it's up, and can be skipped.
+ *
+ *     <LoadingOverlay ready={playable}>
+ *         <Page />
+ *     </LoadingOverlay>
+ */
+export default function LoadingOverlay({
+    children,
+    ready = false,
+    fontsWeight = 0.1,
+    minDuration = 500,
+    skipAfter = 3000,
+    theme = "dark",
+    template,
+    error = null,
+}: LoadingOverlayProps) {
+    const [progress, setProgress] = useState(0);
+    const tracker = useMemo(() => createLoadingTracker(setProgress), []);
+
+    const [minElapsed, setMinElapsed] = useState(minDuration <= 0);
+    const [skippable, setSkippable] = useState(false);
+
+    /**
+     * Once the overlay has gone (or was skipped) it stays gone.
+     */
+    const [hidden, setHidden] = useState(false);
+
+    const loading = !(ready || progress >= 100) || !minElapsed;
+    const shownError = hidden ? null : error;
+    const visible = !hidden && (loading || shownError != null);
+
+    /**
+     * Smooth the displayed progress; the spring is rendered as a motion value,
+     * so it animates without re-rendering.
+     */
+    const progressMotion = useMotionValue(0);
+    const animatedProgress = useSpring(progressMotion, {
+        stiffness: 100,
+        damping: 20,
+        restDelta: 0.001,
+    });
+    const percentage = useTransform(animatedProgress, (value) => `${Math.floor(value)}%`);
+    const scaleX = useTransform(animatedProgress, [0, 100], [0, 1]);
+
+    useEffect(() => {
+        progressMotion.set(progress);
+    }, [progress, progressMotion]);
+
+    /**
+     * Web fonts are a source of their own.
+     */
+    useEffect(() => {
+        if (fontsWeight <= 0 || !document.fonts) return;
+
+        let cancelled = false;
+        tracker.report("fonts", 0, fontsWeight);
+        document.fonts.ready.then(() => {
+            if (!cancelled) tracker.report("fonts", 100, fontsWeight);
+        });
+        return () => {
+            cancelled = true;
+            tracker.remove("fonts");
+        };
+    }, [tracker, fontsWeight]);
+
+    useEffect(() => {
+        const timer = setTimeout(() => setMinElapsed(true), minDuration);
+        return () => clearTimeout(timer);
+    }, [minDuration]);
+
+    useEffect(() => {
+        if (skipAfter === false) return;
+        const timer = setTimeout(() => setSkippable(true), skipAfter);
+        return () => clearTimeout(timer);
+    }, [skipAfter]);
+
+    /**
+     * Lock scrolling while the overlay is up, starting from the top.
+     */
+    useEffect(() => {
+        if (!visible) return;
+
+        document.documentElement.style.overflow = "hidden";
+        window.scrollTo(0, 0);
+        return () => {
+            document.documentElement.style.overflow = "";
+        };
+    }, [visible]);
+
+    useEffect(() => {
+        if (!visible) setHidden(true);
+    }, [visible]);
+
+    /**
+     * Report how the overlay ended: gone (skipped if still loading), or left
+     * behind by a visitor who gave up. Only the first counts.
+     */
+    const analytics = useAnalytics();
+    const reportedRef = useRef(false);
+    const progressRef = useRef(progress);
+    useEffect(() => {
+        progressRef.current = progress;
+    }, [progress]);
+
+    useEffect(() => {
+        if (visible || reportedRef.current) return;
+        reportedRef.current = true;
+        analytics?.track({ type: "loading-complete", duration: Math.round(performance.now()), skipped: loading });
+    }, [visible, loading, analytics]);
+
+    useEffect(() => {
+        if (!analytics || !visible) return;
+        return analytics.onLeave(() => {
+            if (reportedRef.current) return;
+            reportedRef.current = true;
+            analytics.track({
+                type: "loading-abandoned",
+                progress: Math.floor(progressRef.current),
+                duration: Math.round(performance.now()),
+            });
+        });
+    }, [analytics, visible]);
+
+    const labelId = useId();
+    const colors = THEMES[theme];
+    const skip = skippable ? () => setHidden(true) : undefined;
+    const value = Math.floor(progress);
+
+    return (
+        <LoadingProgressContext.Provider value={tracker}>
+            <AnimatePresence>
+                {visible && (
+                    <motion.div
+                        key="loading-overlay"
+                        className={"fixed inset-0 flex flex-col items-center justify-center gap-6 z-50 " + colors.overlay}
+                        initial={{ opacity: 1 }}
+                        exit={{ opacity: 0 }}
+                        transition={{ duration: 0.5 }}
+                    >
+                        {shownError ? (
+                            <div role="alert" className="w-1/2 text-center">
+                                <h3 className="text-xl font-semibold">{shownError.title}</h3>
+                                {shownError.message && <p className="mt-2 opacity-75">{shownError.message}</p>}
+                                <button
+                                    type="button"
+                                    data-cursor-magnetic
+                                    onClick={() => setHidden(true)}
+                                    className={"mt-6 rounded px-4 py-2 font-semibold focus-visible:ring-4 focus-visible:ring-blue-400 " + colors.button}
+                                >
+                                    Continue
+                                </button>
+                            </div>
+                        ) : template ? (
+                            template({ progress: animatedProgress, value, skip })
+                        ) : (
+                            <div className="w-1/2">
+                                {/* Animated Loading Percentage */}
+                                <h3 id={labelId} className="text-center text-xl font-semibold">
+                                    Loading <motion.span aria-hidden>{percentage}</motion.span>
+                                </h3>
+
+                                {/* Animated Progress Bar */}
+                                <div
+                                    role="progressbar"
+                                    aria-labelledby={labelId}
+                                    aria-valuemin={0}
+                                    aria-valuemax={100}
+                                    aria-valuenow={value}
+                                    className={"relative w-full h-6 rounded-full overflow-hidden shadow-xl " + colors.track}
+                                >
+                                    <motion.div
+                                        className={"origin-left h-full w-full " + colors.bar}
+                                        style={{ scaleX }}
+                                    />
+                                </div>
+                            </div>
+                        )}
+
+                        {skip && !shownError && (
+                            <button
+                                type="button"
+                                data-cursor-magnetic
+                                onClick={skip}
+                                className="text-sm underline opacity-75 hover:opacity-100 focus-visible:opacity-100"
+                            >
+                                Skip
+                            </button>
+                        )}
+                    </motion.div>
+                )}
+            </AnimatePresence>
+
+            <div aria-busy={visible}>
+                {children}
+            </div>
+        </LoadingProgressContext.Provider>
+    );
+}
@@ -0,0 +1,29 @@
+import Header from "@/components/layout/header";
+import Link from "@/components/link";
+import { useDocumentTitle, useScrollRestoration } from "@/lib/router";
+import { STORY_INDEX_TITLE } from "@/lib/stories";
+
+/**
+ * Shown for paths that aren't a page. Static hosts serve it as 404.html.
+ */
+export default function NotFoundPage() {
+    useDocumentTitle("Page not found");
+    useScrollRestoration();
+
+    return (
+        <>
+            <Header title="Page not found" back={{ to: "/", label: STORY_INDEX_TITLE }} />
+
+            <main className="flex min-h-screen flex-col items-center justify-center gap-6 bg-gray-50 px-4 text-center">
+                <p className="text-lg text-gray-700">There's no story here. It may have moved, or the link may be mistyped.</p>
+                <Link
+                    to="/"
+                    data-cursor-magnetic
+                    className="rounded-full bg-black px-6 py-3 font-semibold text-white focus-visible:outline-none focus-visible:ring-4 focus-visible:ring-blue-400"
+                >
+                    See all stories
+                </Link>
+            </main>
+        </>
+    );
+}
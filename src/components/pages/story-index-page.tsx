@@ -0,0 +1,44 @@
+import Header from "@/components/layout/header";
+import Link from "@/components/link";
+import { useDocumentTitle, useScrollRestoration } from "@/lib/router";
+import { getStoryPath, STORIES, STORY_INDEX_DESCRIPTION, STORY_INDEX_TITLE } from "@/lib/stories";
+
+/**
+ * The list of every story on the site.
+ */
+export default function StoryIndexPage() {
+    useDocumentTitle(STORY_INDEX_TITLE);
+    useScrollRestoration();
+
+    return (
+        <>
+            <Header title={STORY_INDEX_TITLE} />
+
+            <main className="min-h-screen bg-gray-50 px-4 py-16">
+                <div className="mx-auto max-w-5xl">
+                    <p className="mb-10 text-lg text-gray-700">{STORY_INDEX_DESCRIPTION}</p>
+
+                    <ul className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
+                        {STORIES.map(({ slug, meta }) => (
+                            <li key={slug}>
+                                <Link
+                                    to={getStoryPath(slug)}
+                                    data-cursor-label="Read"
+                                    className="block h-full overflow-hidden rounded bg-white drop-shadow-lg outline-none focus-visible:ring-4 focus-visible:ring-blue-400"
+                                >
+                                    {meta.image && (
+                                        <img src={meta.image} alt="" loading="lazy" className="aspect-video w-full object-cover" />
+                                    )}
+                                    <div className="p-6">
+                                        <h2 className="mb-2 text-xl font-semibold">{meta.title}</h2>
+                                        {meta.description && <p className="text-gray-700">{meta.description}</p>}
+                                    </div>
+                                </Link>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            </main>
+        </>
+    );
+}
@@ -0,0 +1,45 @@
+import { useMemo } from "react";
+import Header from "@/components/layout/header";
+import StoryRenderer from "@/components/story-renderer";
+import { QualitySelection } from "@/lib/quality";
+import { useDocumentTitle, useScrollRestoration } from "@/lib/router";
+import { Story } from "@/lib/story";
+import { getStoryNavigation } from "@/lib/story-navigation";
+import { STORY_INDEX_TITLE } from "@/lib/stories";
+import { ScrollyVideoError } from "@/lib/video-errors";
+
+interface StoryPageProps {
+    story: Story;
+
+    /**
+     * Forwarded to StoryRenderer; the layout uses them to drive its loading overlay.
+     */
+    onPlayable?: () => void;
+    onError?: (error: ScrollyVideoError) => void;
+    onQualityChange?: (selection: QualitySelection) => void;
+}
+
+/**
+ * One story, with a header linking to its sections and back to the index.
+ * Leaving the page unmounts its ScrollyVideos, which frees their frames.
+ */
+export default function StoryPage({ story, onPlayable, onError, onQualityChange }: StoryPageProps) {
+    const navigation = useMemo(() => getStoryNavigation(story), [story]);
+    useDocumentTitle(story.title);
+    useScrollRestoration();
+
+    return (
+        <>
+            <Header title={story.title} links={navigation} back={{ to: "/", label: STORY_INDEX_TITLE }} />
+
+            <main>
+                <StoryRenderer
+                    story={story}
+                    onPlayable={onPlayable}
+                    onError={onError}
+                    onQualityChange={onQualityChange}
+                />
+            </main>
+        </>
+    );
+}
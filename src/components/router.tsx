@@ -0,0 +1,93 @@
+import { ReactNode, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { getRoutePath, normalizePath, RouterContext, toHref } from "@/lib/router";
+
+interface RouterProps {
+    /**
+     * The path to render, for pre-rendering where there's no `location`.
+     * Defaults to the current URL's.
+     */
+    path?: string;
+
+    children: ReactNode;
+}
+
+interface HistoryState {
+    /** Identifies the history entry, to remember its scroll position. */
+    routeKey: string;
+}
+
+function createKey(): string {
+    return Math.random().toString(36).slice(2, 10);
+}
+
+function getEntryKey(): string | undefined {
+    return (history.state as HistoryState | null)?.routeKey;
+}
+
+/**
+ * Router tracks the current page's path and lets links inside change it
+ * without reloading. It remembers each history entry's scroll position, so
+ * going back returns the visitor to where they were.
+ */
+export default function Router({ path: initialPath, children }: RouterProps) {
+    const [path, setPath] = useState(() => normalizePath(initialPath ?? getRoutePath(window.location.pathname)));
+
+    /**
+     * Scroll positions by history entry, saved as the visitor leaves them.
+     */
+    const positionsRef = useRef(new Map<string, number>());
+    const keyRef = useRef<string>();
+
+    /**
+     * Where the next page shown should scroll to; see `takeScrollPosition`.
+     */
+    const pendingScrollRef = useRef<number | null>(null);
+
+    // Tag the entry we loaded on, keeping whatever else is in its state
+    useEffect(() => {
+        keyRef.current = getEntryKey() ?? createKey();
+        history.replaceState({ ...history.state, routeKey: keyRef.current }, "");
+    }, []);
+
+    useEffect(() => {
+        const handlePopState = () => {
+            const next = getRoutePath(window.location.pathname);
+            // Hash changes within a page are left to the browser (and the page)
+            if (next === path) return;
+
+            if (keyRef.current) positionsRef.current.set(keyRef.current, window.scrollY);
+            keyRef.current = getEntryKey();
+            pendingScrollRef.current = (keyRef.current && positionsRef.current.get(keyRef.current)) || 0;
+            setPath(next);
+        };
+        window.addEventListener("popstate", handlePopState);
+        return () => window.removeEventListener("popstate", handlePopState);
+    }, [path]);
+
+    const navigate = useCallback((to: string, { replace = false } = {}) => {
+        const next = normalizePath(to);
+        if (keyRef.current) positionsRef.current.set(keyRef.current, window.scrollY);
+
+        keyRef.current = createKey();
+        const state: HistoryState = { routeKey: keyRef.current };
+        if (replace) history.replaceState(state, "", toHref(next));
+        else history.pushState(state, "", toHref(next));
+
+        pendingScrollRef.current = 0;
+        setPath(next);
+    }, []);
+
+    const takeScrollPosition = useCallback(() => {
+        const position = pendingScrollRef.current;
+        pendingScrollRef.current = null;
+        return position;
+    }, []);
+
+    const value = useMemo(() => ({ path, navigate, takeScrollPosition }), [path, navigate, takeScrollPosition]);
+
+    return (
+        <RouterContext.Provider value={value}>
+            {children}
+        </RouterContext.Provider>
+    );
+}
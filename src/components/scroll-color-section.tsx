@@ -0,0 +1,197 @@
+import { motion, MotionValue, useScroll, useTransform, UseScrollOptions } from "motion/react";
+import { ReactNode, useRef } from "react";
+
+/**
+ * A point in the section's palette.
+ */
+export interface ScrollColorStop {
+    /**
+     * A hex, rgb() or hsl() color. Colors are interpolated smoothly into the
+     * neighbouring stops' colors.
+     */
+    color?: string;
+
+    /**
+     * A CSS background-image (a gradient or `url(...)`), cross-faded in over
+     * the color as the stop is reached.
+     */
+    background?: string;
+
+    /**
+     * Scroll progress (0-1) through the section at which this stop is fully
+     * shown. Stops without one are spread evenly between their neighbours.
+     */
+    at?: number;
+}
+
+interface ScrollColorSectionProps {
+    /**
+     * The palette to scroll through, in order. Plain strings are colors.
+     */
+    stops: (string | ScrollColorStop)[];
+
+    /**
+     * Where scroll progress starts and ends, as for `useScroll`. Defaults to
+     * the section entering the bottom of the viewport until it leaves the top.
+     */
+    offset?: UseScrollOptions["offset"];
+
+    /**
+     * Pin the content (and background) to the viewport while the section
+     * scrolls past. Defaults to true.
+     */
+    sticky?: boolean;
+
+    /**
+     * Classes for the section itself; give it a height taller than the
+     * viewport for the palette to play out over, e.g. "h-[200vh]".
+     */
+    className?: string;
+
+    /**
+     * Classes for the element wrapping `children`.
+     */
+    contentClassName?: string;
+
+    /**
+     * Labels the section as a landmark, e.g. the id of its heading.
+     */
+    "aria-labelledby"?: string;
+
+    id?: string;
+
+    children?: ReactNode;
+}
+
+interface ResolvedStop {
+    color: string;
+    background?: string;
+    at: number;
+}
+
+/**
+ * Fills in every stop's color and position. Stops without a color keep the
+ * previous one (or the next one, at the start), and missing positions are
+ * spread evenly between the known ones.
+ */
+function resolveStops(stops: (string | ScrollColorStop)[]): ResolvedStop[] {
+    const normalized = stops.map((stop) => (typeof stop === "string" ? { color: stop } : stop));
+    const count = normalized.length;
+
+    // Colors: carry forward, then backward for leading gaps
+    const colors = normalized.map((stop) => stop.color);
+    for (let i = 1; i < count; i++) colors[i] ??= colors[i - 1];
+    for (let i = count - 2; i >= 0; i--) colors[i] ??= colors[i + 1];
+
+    // Positions: the ends default to 0 and 1, gaps are interpolated
+    const positions = normalized.map((stop) => stop.at);
+    if (count > 0) {
+        positions[0] ??= 0;
+        positions[count - 1] ??= count > 1 ? 1 : 0;
+    }
+    let known = 0;
+    for (let i = 1; i < count; i++) {
+        if (positions[i] == null) continue;
+        for (let gap = known + 1; gap < i; gap++) {
+            positions[gap] = positions[known]! + ((positions[i]! - positions[known]!) * (gap - known)) / (i - known);
+        }
+        known = i;
+    }
+
+    return normalized.map((stop, i) => ({
+        color: colors[i] ?? "transparent",
+        background: stop.background,
+        at: positions[i]!,
+    }));
+}
+
+interface BackgroundLayerProps {
+    progress: MotionValue<number>;
+    background: string;
+    /** Positions of the previous, this and the next stop. */
+    range: [number | undefined, number, number | undefined];
+}
+
+/**
+ * One stop's background image, fully opaque at its own stop and fading out
+ * towards its neighbours.
+ */
+function BackgroundLayer({ progress, background, range: [previous, at, next] }: BackgroundLayerProps) {
+    // Fade in from the previous stop and out towards the next; a lone stop is always shown
+    const keyframes = [
+        ...(previous != null ? [[previous, 0]] : []),
+        [at, 1],
+        ...(next != null ? [[next, 0]] : []),
+    ];
+    if (keyframes.length === 1) keyframes.push([at + 1, 1]);
+
+    const opacity = useTransform(
+        progress,
+        keyframes.map(([position]) => position),
+        keyframes.map(([, value]) => value)
+    );
+
+    return (
+        <motion.div
+            aria-hidden
+            className="absolute inset-0 bg-cover bg-center"
+            style={{ backgroundImage: background, opacity }}
+        />
+    );
+}
+
+/**
+ * A section whose background moves smoothly through a palette of colors (and
+ * optionally gradients or images) as it's scrolled through. Everything is
+ * driven by motion values, so scrolling never re-renders React, and each
+ * instance tracks its own scroll progress.
+ */
+export default function ScrollColorSection({
+    stops,
+    offset,
+    sticky = true,
+    className = "h-[200vh]",
+    contentClassName = "",
+    "aria-labelledby": labelledBy,
+    id,
+    children,
+}: ScrollColorSectionProps) {
+    const sectionRef = useRef<HTMLElement>(null);
+    const { scrollYProgress } = useScroll({
+        target: sectionRef,
+        offset,
+    });
+
+    const resolved = resolveStops(stops);
+    const positions = resolved.map((stop) => stop.at);
+    const colors = resolved.map((stop) => stop.color);
+
+    // A single stop has nothing to interpolate to
+    const backgroundColor = useTransform(
+        scrollYProgress,
+        positions.length > 1 ? positions : [0, 1],
+        colors.length > 1 ? colors : [colors[0] ?? "transparent", colors[0] ?? "transparent"]
+    );
+
+    return (
+        <section ref={sectionRef} id={id} className={className} aria-labelledby={labelledBy}>
+            <motion.div
+                className={(sticky ? "sticky top-0 h-screen" : "relative h-full") + " overflow-hidden"}
+                style={{ backgroundColor }}
+            >
+                {resolved.map((stop, index) => stop.background && (
+                    <BackgroundLayer
+                        key={index}
+                        progress={scrollYProgress}
+                        background={stop.background}
+                        range={[resolved[index - 1]?.at, stop.at, resolved[index + 1]?.at]}
+                    />
+                ))}
+
+                <div className={"relative h-full " + contentClassName}>
+                    {children}
+                </div>
+            </motion.div>
+        </section>
+    );
+}
@@ -0,0 +1,71 @@
+import { ReactNode, RefObject, useMemo, useState } from "react";
+import { FrameDirection, ScrollAxis, ScrollOffset, useScrollProgress } from "@/lib/scroll-progress";
+import { ScrollyTimelineContext } from "@/lib/timeline";
+
+interface ScrollyTimelineProps {
+    /**
+     * The same container ref passed to the ScrollyVideo inside the timeline;
+     * scroll progress is measured through it.
+     */
+    containerRef: RefObject<HTMLDivElement>;
+
+    /**
+     * These match the ScrollyVideo's props of the same names, so cues follow
+     * the frames it draws.
+     */
+    scrollContainerRef?: RefObject<HTMLElement>;
+    axis?: ScrollAxis;
+    offset?: ScrollOffset;
+    direction?: FrameDirection;
+
+    /**
+     * A ScrollyVideo plus any number of TimelineCue overlays.
+     */
+    children: ReactNode;
+}
+
+/**
+ * ScrollyTimeline lets overlays be declared against the video instead of the
+ * page layout. The ScrollyVideo inside it reports which frames it draws, and
+ * each TimelineCue converts its start/end times (or frame numbers) into
+ * scroll progress through the same frames, so captions stay aligned with
+ * what's on screen whatever the section's height.
+ *
+ *     <ScrollyTimeline containerRef={ref}>
+ *         <ScrollyVideo video={video} containerRef={ref} />
+ *         <TimelineCue start={2} end={4.5} fade={0.5}>...</TimelineCue>
+ *     </ScrollyTimeline>
+ */
+export default function ScrollyTimeline({
+    containerRef,
+    scrollContainerRef,
+    axis,
+    offset,
+    direction,
+    children,
+}: ScrollyTimelineProps) {
+    const [frameTimes, setFrameTimes] = useState<number[]>([]);
+
+    /**
+     * How far (0 to 1) through the video the scroll position is, measured
+     * exactly like ScrollyVideo measures it.
+     */
+    const progress = useScrollProgress({
+        target: containerRef,
+        container: scrollContainerRef,
+        axis,
+        offset,
+        direction,
+    });
+
+    const timeline = useMemo(
+        () => ({ progress, frameTimes, setFrameTimes }),
+        [progress, frameTimes]
+    );
+
+    return (
+        <ScrollyTimelineContext.Provider value={timeline}>
+            {children}
+        </ScrollyTimelineContext.Provider>
+    );
+}
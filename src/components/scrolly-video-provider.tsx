@@ -0,0 +1,73 @@
+import { ReactNode, useMemo, useRef } from "react";
+import { createExtractionScheduler, ScrollyVideoProviderContext } from "@/lib/extraction-scheduler";
+import { useLoadingProgress } from "@/lib/loading-progress";
+
+interface ScrollyVideoProviderProps {
+    /**
+     * How many ScrollyVideos may extract frames at the same time. Defaults to 1.
+     */
+    concurrency?: number;
+
+    /**
+     * How far (in viewport heights) a ScrollyVideo's container may be from the
+     * viewport before its frames are closed to free memory. They're loaded
+     * again (from the cache, if enabled) when it comes back. Defaults to 2.
+     */
+    releaseDistance?: number;
+
+    /**
+     * An optional callback fired with the combined load progress (0-100) of
+     * every ScrollyVideo currently holding frames. Pass a stable function.
+     */
+    onProgress?: (progress: number) => void;
+
+    /**
+     * How much frame extraction counts towards an enclosing LoadingOverlay's
+     * progress, relative to its other sources. Defaults to 1.
+     */
+    loadingWeight?: number;
+
+    children: ReactNode;
+}
+
+/**
+ * ScrollyVideoProvider lets a page hold any number of ScrollyVideos. Their
+ * extraction is queued so only `concurrency` run at once, nearest to the
+ * viewport first, and instances that scroll far away release their frames.
+ */
+export default function ScrollyVideoProvider({
+    concurrency = 1,
+    releaseDistance = 2,
+    onProgress,
+    loadingWeight = 1,
+    children,
+}: ScrollyVideoProviderProps) {
+    /**
+     * Latest progress of each instance, keyed by its id.
+     */
+    const progressRef = useRef(new Map<string, number>());
+    const reportLoading = useLoadingProgress(loadingWeight);
+
+    const value = useMemo(() => {
+        const progress = progressRef.current;
+        return {
+            scheduler: createExtractionScheduler(concurrency),
+            releaseDistance,
+            reportProgress(id: string, value: number | null) {
+                if (value == null) progress.delete(id);
+                else progress.set(id, value);
+
+                if (!progress.size) return;
+                const total = [...progress.values()].reduce((sum, p) => sum + p, 0);
+                onProgress?.(total / progress.size);
+                reportLoading(total / progress.size);
+            },
+        };
+    }, [concurrency, releaseDistance, onProgress, reportLoading]);
+
+    return (
+        <ScrollyVideoProviderContext.Provider value={value}>
+            {children}
+        </ScrollyVideoProviderContext.Provider>
+    );
+}
@@ -1,106 +1,620 @@
-import { motion, HTMLMotionProps, useScroll, useTransform } from "framer-motion";
-import { RefObject, useCallback, useEffect, useRef, useState } from "react";
+import { motion, HTMLMotionProps, useInView, useMotionValueEvent, useReducedMotion, useTransform } from "framer-motion";
+import {
+    ForwardedRef,
+    forwardRef,
+    RefObject,
+    useCallback,
+    useContext,
+    useEffect,
+    useId,
+    useImperativeHandle,
+    useMemo,
+    useRef,
+    useState,
+} from "react";
+import { useAnalytics } from "@/lib/analytics";
+import { ArtDirection, FocalPointSetting, getFocalPoint, useArtDirection } from "@/lib/art-direction";
+import { BlendMode, CanvasFit, DEFAULT_FRAME_LAYOUT, FrameLayout } from "@/lib/canvas-renderer";
+import { ScrollyVideoProviderContext } from "@/lib/extraction-scheduler";
+import { createFrameDrawer, FrameDrawer } from "@/lib/frame-drawer";
+import { FrameEffect, getCanvasFilter, getEffectValue, hasEffects, resolveEffects } from "@/lib/frame-effects";
+import {
+    DEFAULT_CACHE_BUDGET,
+    fetchVideoVersion,
+    getFrameCacheKey,
+    isFrameCacheSupported,
+    readCachedFrames,
+    writeCachedFrames,
+} from "@/lib/frame-cache";
+import { FrameManifest } from "@/lib/frame-manifest";
+import {
+    canUpgradeQuality,
+    DEFAULT_QUALITY_TIERS,
+    getQualitySignals,
+    planQuality,
+    QualityPlan,
+    QualitySelection,
+    QualityTier,
+    selectRendition,
+    VideoRendition,
+} from "@/lib/quality";
+import { sampleFrameTimes } from "@/lib/frame-sampling";
+import {
+    createScrollAudio,
+    NO_LOWPASS,
+    ScrollAudio,
+    SoundContext,
+    SoundtrackOptions,
+} from "@/lib/scroll-audio";
+import { animateScroll, ScrollyChapter } from "@/lib/scroll-playback";
+import {
+    FrameDirection,
+    getCurrentScrollProgress,
+    getScroller,
+    getScrollPositionForProgress,
+    ScrollAxis,
+    ScrollOffset,
+    scrollToPosition,
+    ScrollSource,
+    toScrollProgress,
+    useScrollProgress,
+} from "@/lib/scroll-progress";
+import { frameToProgress, progressToTime, ScrollyTimelineContext, timeToProgress } from "@/lib/timeline";
+import {
+    DEFAULT_RETRIES,
+    DEFAULT_STEP_TIMEOUT,
+    ScrollyVideoError,
+    toScrollyVideoError,
+} from "@/lib/video-errors";
+import {
+    createFrameExtractor,
+    createFrameRenderer,
+    FrameExtractor,
+    FrameRenderer,
+    isOffscreenCanvasSupported,
+    isWorkerSupported,
+} from "@/lib/frame-worker";
+import {
+    extractFramesBySeeking,
+    extractFramesWithWebCodecs,
+    FrameExtractionOptions,
+    isWebCodecsSupported,
+    loadFramesFromManifest,
+} from "@/lib/video-helpers";
 
-interface ScrollyVideoProps extends HTMLMotionProps<"canvas"> {
+/**
+ * How frames are pulled out of the video:
+ * - "webcodecs": demux the file and decode it with `VideoDecoder` (falls back to "seek" if unavailable)
+ * - "seek": seek a hidden <video> element one frame at a time
+ */
+export type FrameDecoder = "webcodecs" | "seek";
+
+/**
+ * What to show instead of scrubbing when the user prefers reduced motion:
+ * - "video": a regular <video> with controls (falls back to "poster" without a `video`)
+ * - "poster": a still image (`poster`, or the first frame)
+ * - "scrub": ignore the preference and scrub as usual
+ */
+export type ReducedMotionFallback = "video" | "poster" | "scrub";
+
+// `onError` reports load failures rather than the canvas element's error event
+interface ScrollyVideoProps extends Omit<HTMLMotionProps<"canvas">, "onError"> {
     /**
-     * The URL or path to the video file used to extract frames.
+     * The URL or path to the video file used to extract frames. Either this or
+     * `frames` is required.
      */
-    video: string;
+    video?: string;
+
+    /**
+     * A frame sequence pre-extracted at build time, as returned by importing a
+     * video with the `?frames` suffix (see plugins/frame-sequence.ts). Frames
+     * are downloaded progressively instead of decoded; the sampling options
+     * (maxFrames, baseFps) were already applied by the plugin.
+     */
+    frames?: FrameManifest;
 
     /**
      * A ref to the container element within which the scroll progress is measured.
      */
     containerRef: RefObject<HTMLDivElement>;
 
+    /**
+     * The element that scrolls, for sections inside an overflowing element
+     * rather than the page. Defaults to the window.
+     */
+    scrollContainerRef?: RefObject<HTMLElement>;
+
+    /**
+     * Which scroll direction drives the video: "y" (vertical) or "x"
+     * (horizontal). Defaults to "y".
+     */
+    axis?: ScrollAxis;
+
+    /**
+     * Where progress starts and ends, as `useScroll` offsets. Defaults to
+     * ["start start", "end end"]: from the container's start reaching the
+     * viewport's start until its end reaches the viewport's end.
+     */
+    offset?: ScrollOffset;
+
+    /**
+     * "forward" plays the video as you scroll, "reverse" plays it backwards,
+     * and "ping-pong" plays it forwards then back. Defaults to "forward".
+     */
+    direction?: FrameDirection;
+
     /**
      * An optional callback fired during the frame extraction process (0-100).
      */
     onLoadProgress?: (progress: number) => void;
 
     /**
-     * The maximum width (in pixels) to which extracted frames will be scaled. 
-     * Defaults to 1920.
+     * The maximum width (in pixels) to which extracted frames will be scaled,
+     * whichever quality tier is picked.
      */
     maxWidth?: number;
 
     /**
-     * The maximum height (in pixels) to which extracted frames will be scaled. 
-     * Defaults to 1080.
+     * The maximum height (in pixels) to which extracted frames will be scaled,
+     * whichever quality tier is picked.
      */
     maxHeight?: number;
 
     /**
-     * The maximum number of frames to extract from the video. Defaults to 60.
+     * The maximum number of frames to extract from the video, whichever
+     * quality tier is picked.
      */
     maxFrames?: number;
 
+    /**
+     * The name of the quality tier to load, or "auto" to pick one from the
+     * device's memory and pixel ratio, the canvas' size and the connection.
+     * On a slow connection "auto" loads the lowest tier first and upgrades in
+     * the background. Defaults to "auto".
+     */
+    quality?: "auto" | string;
+
+    /**
+     * The tiers to pick from, lowest to highest. Pass a stable array; changing
+     * it restarts extraction. Defaults to DEFAULT_QUALITY_TIERS from "@/lib/quality".
+     */
+    qualityTiers?: QualityTier[];
+
+    /**
+     * Encodes of `video` at different sizes. The smallest one covering the
+     * picked tier is decoded instead of `video`, which is still used for the
+     * reduced-motion fallback. Pass a stable array.
+     */
+    renditions?: VideoRendition[];
+
+    /**
+     * An optional callback fired with the tier (and rendition) being loaded,
+     * and again once frames are upgraded to a better one.
+     */
+    onQualityChange?: (selection: QualitySelection) => void;
+
     /**
      * The base frames-per-second to assume when slicing frames from the video. 
      * Defaults to 30.
      */
     baseFps?: number;
+
+    /**
+     * The decoding backend used to extract frames. Defaults to "webcodecs".
+     */
+    decoder?: FrameDecoder;
+
+    /**
+     * Run extraction, downscaling and bitmap creation in a dedicated Web Worker
+     * so the main thread stays responsive. Defaults to true.
+     */
+    worker?: boolean;
+
+    /**
+     * Transfer the canvas to a worker via `transferControlToOffscreen` and draw
+     * frames there. A canvas can only be transferred once, so this must not
+     * change after mount. Defaults to false.
+     */
+    offscreen?: boolean;
+
+    /**
+     * Persist extracted frames in IndexedDB so repeat visits load instantly.
+     * Entries are invalidated when the video's ETag or any extraction option
+     * changes. Use `clearFrameCache()` from "@/lib/frame-cache" to wipe it.
+     * Defaults to true.
+     */
+    cache?: boolean;
+
+    /**
+     * The size budget (in bytes) for all cached frames; least recently used
+     * videos are evicted first. Defaults to 100 MB.
+     */
+    cacheMaxBytes?: number;
+
+    /**
+     * How densely (0-1) frames must be loaded across the whole timeline before
+     * `onPlayable` fires: at 0.25, every 4th frame. Scrolling then shows the
+     * nearest loaded frame until the rest arrive. Defaults to 1.
+     */
+    playableThreshold?: number;
+
+    /**
+     * An optional callback fired once enough frames are loaded to start
+     * scrolling (see `playableThreshold`). Pass a stable function; changing it
+     * restarts extraction.
+     */
+    onPlayable?: () => void;
+
+    /**
+     * How to draw scroll positions between two frames: "none" snaps to the
+     * nearest frame, "crossfade" fades between neighbours, and "webgl" blends
+     * them along estimated motion so fewer frames still look smooth. "webgl"
+     * falls back to "crossfade" without WebGL. The canvas context is picked
+     * from the mode on mount, so switching to "webgl" later only cross-fades.
+     * Defaults to "none".
+     */
+    blend?: BlendMode;
+
+    /**
+     * How frames are sized to the canvas: "cover", "contain" or "fill", as
+     * with CSS `object-fit`. Defaults to "cover".
+     */
+    fit?: CanvasFit;
+
+    /**
+     * The point of the frame (0-1 on each axis) kept in view when cropping,
+     * as with CSS `object-position`. Pass keyframes with video `time`s to
+     * follow a moving subject. Defaults to { x: 0.5, y: 0 }: centered and
+     * pinned to the top.
+     */
+    focalPoint?: FocalPointSetting;
+
+    /**
+     * Overrides for `fit`, `focalPoint` or the source video itself, each
+     * applied while its media query matches; the first match wins. A new
+     * source re-extracts frames.
+     *
+     *     artDirection={[{ media: "(orientation: portrait)", video: portraitCut }]}
+     */
+    artDirection?: ArtDirection[];
+
+    /**
+     * Post-processing applied as frames are drawn: blur, grayscale, sepia,
+     * vignette, color grading or a text mask. Parameters can be keyframed
+     * on progress through the video (0-1), e.g. to fade to black and white
+     * towards the end. Fallback images and videos get the blur and color
+     * effects at the start.
+     */
+    effects?: FrameEffect[];
+
+    /**
+     * A soundtrack following the scroll position: an ambient loop whose
+     * volume and filter are keyed to progress, or audio synced to the video.
+     * `true` uses the video's own audio track. It only plays once sound is
+     * turned on with a SoundToggle in an enclosing SoundProvider, fades in and
+     * out as the container enters and leaves the viewport, and stays silent
+     * in reduced-motion fallbacks (the "video" one has its own controls).
+     */
+    soundtrack?: SoundtrackOptions | boolean;
+
+    /**
+     * A text alternative describing what the video shows, read by screen
+     * readers in place of the canvas (or fallback video/image).
+     */
+    alt?: string;
+
+    /**
+     * An image representing the video, shown when reduced motion falls back to
+     * a still image and used as the fallback <video>'s poster.
+     */
+    poster?: string;
+
+    /**
+     * What to show when the user prefers reduced motion. No frames are
+     * extracted unless this is "scrub". Defaults to "video".
+     */
+    reducedMotion?: ReducedMotionFallback;
+
+    /**
+     * How long (in ms) each loading step (a request, the video's metadata, a
+     * seek) may take before it's retried or fails with a "timeout" error.
+     * Defaults to 10 seconds.
+     */
+    timeout?: number;
+
+    /**
+     * How many times a step that timed out or hit a network error is retried.
+     * Defaults to 2.
+     */
+    retries?: number;
+
+    /**
+     * An optional callback fired if frames can't be loaded. The component then
+     * shows `poster` (or a plain <video> without one) instead of the canvas.
+     */
+    onError?: (error: ScrollyVideoError) => void;
+
+    /**
+     * Named moments in the video. Loading the page with a chapter's id as
+     * the URL hash (e.g. `#chapter-2`) scrolls straight to it, and the ref's
+     * `seekToChapter` jumps to one.
+     */
+    chapters?: ScrollyChapter[];
+
+    /**
+     * Settle on the nearest chapter when scrolling stops within half a
+     * viewport of it. Defaults to false.
+     */
+    snap?: boolean;
+}
+
+interface SeekOptions {
+    /** Scroll there smoothly instead of jumping. Defaults to true. */
+    smooth?: boolean;
+}
+
+interface PlayOptions {
+    /** Where to stop, in seconds of video time. Defaults to the end. */
+    until?: number;
+
+    /** Playback speed relative to the video's own. Defaults to 1. */
+    speed?: number;
+}
+
+/**
+ * What a ref to ScrollyVideo exposes. Seeking and playing scroll the page, so
+ * everything else tied to the scroll position follows along; in the
+ * reduced-motion "video" fallback they control the <video> instead.
+ */
+export interface ScrollyVideoHandle {
+    /** The (fractional) frame position currently drawn. */
+    readonly currentFrame: number;
+
+    /** The video time (in seconds) currently shown. */
+    readonly currentTime: number;
+
+    /** Scrolls to the frame showing `time` seconds into the video. */
+    seekTo: (time: number, options?: SeekOptions) => void;
+
+    seekToFrame: (frame: number, options?: SeekOptions) => void;
+
+    /** Scrolls to a chapter by id. Returns false if there's no such chapter. */
+    seekToChapter: (id: string, options?: SeekOptions) => boolean;
+
+    /**
+     * Scrolls through the section at the video's own pace. Resolves once it
+     * gets there, or when paused or the visitor scrolls themselves.
+     */
+    play: (options?: PlayOptions) => Promise<void>;
+
+    pause: () => void;
 }
 
+/**
+ * How long scrolling has to pause before snapping to a chapter (ms).
+ */
+const SNAP_DELAY = 150;
+
 /**
  * ScrollyVideo extracts frames from a video and draws them onto a canvas
  * in response to the user's scroll progress. As the user scrolls, it updates
  * the displayed frame based on the current scroll position.
  */
-export default function ScrollyVideo({
-    video,
+function ScrollyVideo({
+    video: defaultVideo,
+    frames: defaultManifest,
     onLoadProgress,
     containerRef,
-    maxWidth = 1920,
-    maxHeight = 1080,
-    maxFrames = 30,
+    scrollContainerRef,
+    axis = "y",
+    offset,
+    direction = "forward",
+    maxWidth,
+    maxHeight,
+    maxFrames,
+    quality = "auto",
+    qualityTiers = DEFAULT_QUALITY_TIERS,
+    renditions: defaultRenditions,
+    onQualityChange,
     baseFps = 30,
+    decoder = "webcodecs",
+    worker = true,
+    offscreen = false,
+    cache = true,
+    cacheMaxBytes = DEFAULT_CACHE_BUDGET,
+    playableThreshold = 1,
+    onPlayable,
+    blend = "none",
+    fit: defaultFit = DEFAULT_FRAME_LAYOUT.fit,
+    focalPoint: defaultFocalPoint = DEFAULT_FRAME_LAYOUT.focus,
+    artDirection,
+    effects,
+    soundtrack,
+    alt,
+    poster,
+    reducedMotion = "video",
+    timeout = DEFAULT_STEP_TIMEOUT,
+    retries = DEFAULT_RETRIES,
+    onError,
+    chapters,
+    snap = false,
     ...props
-}: ScrollyVideoProps) {
+}: ScrollyVideoProps, ref: ForwardedRef<ScrollyVideoHandle>) {
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const videoRef = useRef<HTMLVideoElement>(null);
 
     /**
-     * Holds all extracted ImageBitmap frames once ready.
+     * The source and framing for the current viewport. A manifest or
+     * renditions belong to one video, so a swapped-in video doesn't inherit
+     * the default's.
+     */
+    const art = useArtDirection(artDirection);
+    const video = art?.video ?? defaultVideo;
+    const manifest = art?.video ? art.frames : (art?.frames ?? defaultManifest);
+    const renditions = art?.video ? art.renditions : (art?.renditions ?? defaultRenditions);
+    const fit = art?.fit ?? defaultFit;
+    const focalPoint = art?.focalPoint ?? defaultFocalPoint;
+
+    /**
+     * Why frames couldn't be loaded, if they couldn't.
+     */
+    const [loadError, setLoadError] = useState<ScrollyVideoError | null>(null);
+
+    /**
+     * Scrubbing is motion the user didn't ask for, so respect their preference
+     * (unless told not to). Without frames to scrub, show the poster or, failing
+     * that, the video itself. A playable video needs a `video` URL.
+     *
+     * The preference is unknown when pre-rendering, so the first render always
+     * scrubs and the fallback is picked after mount; otherwise hydrating the
+     * pre-rendered page would mismatch for those visitors.
+     */
+    const prefersReducedMotion = useReducedMotion();
+    const [mounted, setMounted] = useState(false);
+    useEffect(() => setMounted(true), []);
+
+    let fallback: ReducedMotionFallback = mounted && prefersReducedMotion ? reducedMotion : "scrub";
+    if (loadError && fallback === "scrub") fallback = poster || manifest ? "poster" : "video";
+    if (fallback === "video" && !video) fallback = "poster";
+    const scrubbing = fallback === "scrub";
+
+    /**
+     * Holds the extracted ImageBitmap frames. Frames are published as they load,
+     * so this can be sparse until extraction finishes.
      */
     const [frames, setFrames] = useState<ImageBitmap[]>([]);
 
     /**
-     * Keep track of the current frame index so we can re-draw on canvas resize.
+     * The quality tier whose frames are loading or shown.
+     */
+    const [selectedQuality, setQuality] = useState<QualitySelection | null>(null);
+
+    /**
+     * Keep track of the current (fractional) frame position so we can re-draw on canvas resize.
      */
     const currentFrameRef = useRef<number>(0);
 
     /**
-     * Scroll progress (0 to 1) as we move from 'start' to 'end' of containerRef.
+     * Draws onto the canvas when it isn't handed to a renderer worker. Created
+     * lazily, since the first context requested from a canvas is the only one it gets.
+     */
+    const drawerRef = useRef<FrameDrawer | null>(null);
+
+    /**
+     * The renderer worker that owns the canvas when `offscreen` is enabled.
+     */
+    const rendererRef = useRef<FrameRenderer | null>(null);
+    const rendererTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
+
+    /**
+     * The enclosing ScrollyTimeline, if any, which needs our frame timestamps
+     * to line its cues up with the frames we draw.
+     */
+    const setTimelineFrameTimes = useContext(ScrollyTimelineContext)?.setFrameTimes;
+
+    /**
+     * Timestamps (in seconds) of the frames we draw, once known.
+     */
+    const [frameTimes, setFrameTimes] = useState<number[]>([]);
+
+    /**
+     * The enclosing ScrollyVideoProvider, if any, which queues our extraction
+     * behind other instances and tracks our progress under `instanceId`.
      */
-    const { scrollYProgress } = useScroll({
+    const provider = useContext(ScrollyVideoProviderContext);
+    const instanceId = useId();
+
+    /**
+     * Whether our container is close enough to the viewport to hold frames.
+     * Without a provider there's nothing to share memory with, so always.
+     */
+    const [nearViewport, setNearViewport] = useState(!provider);
+
+    /**
+     * Where scroll progress is read from, and how it maps onto the video.
+     */
+    const scrollSource = useMemo<ScrollSource>(() => ({
         target: containerRef,
-        offset: ["start start", "end end"],
-        layoutEffect: false
-    });
+        container: scrollContainerRef,
+        axis,
+        offset,
+        direction,
+    }), [containerRef, scrollContainerRef, axis, offset, direction]);
+
+    /**
+     * How far (0 to 1) through the video the scroll position is.
+     */
+    const videoProgress = useScrollProgress(scrollSource);
 
     /**
-     * A transform for mapping scroll progress (0-1) to our frame array index (0 to frames.length-1).
+     * A transform for mapping video progress (0-1) to our frame array index (0 to frames.length-1).
      */
     const frameIndex = useTransform(
-        scrollYProgress,
+        videoProgress,
         [0, 1],
         [0, frames.length - 1],
         { clamp: true }
     );
 
     /**
-     * Each time frameIndex changes, draw the corresponding frame.
-     * Also keep track of that index in currentFrameRef for re-drawing.
+     * Each time frameIndex changes, draw the corresponding frame. The position is
+     * kept fractional so blending can land between frames.
+     * Also keep track of that position in currentFrameRef for re-drawing.
+     * Unsubscribes on unmount, so a page left behind stops drawing.
      */
-    frameIndex.on("change", (v) => {
+    useMotionValueEvent(frameIndex, "change", (v) => {
         if (v < 0 || v == null)
             v = 0;
 
-        const idx = Math.round(v);
-        currentFrameRef.current = idx;
-        drawImage(idx);
+        currentFrameRef.current = v;
+        drawImage(v);
     });
 
+    /**
+     * How often the frames in each second of the video have been scrolled
+     * onto since they were last reported to analytics.
+     */
+    const analytics = useAnalytics();
+    const secondViewsRef = useRef<number[]>([]);
+    const lastViewedFrameRef = useRef(-1);
+    useMotionValueEvent(frameIndex, "change", (position) => {
+        const frame = Math.round(position);
+        if (!analytics || frame === lastViewedFrameRef.current || frameTimes[frame] == null) return;
+        lastViewedFrameRef.current = frame;
+
+        const second = Math.floor(frameTimes[frame]);
+        secondViewsRef.current[second] = (secondViewsRef.current[second] || 0) + 1;
+    });
+
+    // Report them as the visitor leaves, or when the source changes
+    const analyticsVideo = video ?? manifest?.frames[0]?.src;
+    useEffect(() => {
+        if (!analytics || !analyticsVideo) return;
+        const report = () => {
+            const views = secondViewsRef.current;
+            if (!views.length) return;
+            analytics.track({ type: "frame-views", video: analyticsVideo, seconds: Array.from(views, (count) => count || 0) });
+            secondViewsRef.current = [];
+        };
+        const removeLeave = analytics.onLeave(report);
+        return () => {
+            removeLeave();
+            report();
+        };
+    }, [analytics, analyticsVideo]);
+
+    /**
+     * Returns the drawer for the canvas, creating it with the current blend mode
+     * on first use.
+     */
+    const getDrawer = useCallback(() => {
+        const canvas = canvasRef.current;
+        if (!drawerRef.current && canvas) {
+            drawerRef.current = createFrameDrawer(canvas, blend);
+        }
+        return drawerRef.current;
+    }, [blend]);
+
     /**
      * Utility to scale the canvas for higher DPI (e.g., on Retina screens)
      * to match the element's layout size.
@@ -113,57 +627,95 @@ export default function ScrollyVideo({
         const rect = canvas.getBoundingClientRect();
         const dpr = window.devicePixelRatio || 1;
 
+        // The canvas belongs to the renderer worker; let it resize
+        if (rendererRef.current) {
+            rendererRef.current.resize(rect.width, rect.height, dpr);
+            return;
+        }
+
         // Update canvas width/height based on layout size * devicePixelRatio
         canvas.width = rect.width * dpr;
         canvas.height = rect.height * dpr;
 
-        // Scale the drawing context so we can draw at "CSS size" coordinates
-        const ctx = canvas.getContext("2d");
-        if (ctx) {
-            ctx.scale(dpr, dpr);
-        }
-    }, []);
+        // Resizing resets the context, so re-apply the DPR scale
+        getDrawer()?.resize(dpr);
+    }, [getDrawer]);
+
+    /**
+     * How to lay out the frame at `position`; keyframed focal points are
+     * looked up at the video time it shows.
+     */
+    const getLayout = useCallback((position: number): FrameLayout => {
+        if (!Array.isArray(focalPoint)) return { fit, focus: focalPoint };
+        const time = progressToTime(frameTimes, frameToProgress(frameTimes.length, position));
+        return { fit, focus: getFocalPoint(focalPoint, time) };
+    }, [fit, focalPoint, frameTimes]);
 
     /**
-     * Draws an ImageBitmap frame onto the canvas at the given index, maintaining
-     * aspect ratio. Clears the canvas first to avoid overlapping images.
+     * Draws the frame(s) at the given position onto the canvas, laid out by
+     * `fit` and `focalPoint`, blended according to `blend` and with `effects`
+     * applied. While frames are still loading, the nearest loaded ones are used.
      */
     const drawImage = useCallback(
-        (index: number) => {
-            const canvas = canvasRef.current;
-            if (!canvas) return;
-            const ctx = canvas.getContext("2d");
-            if (!ctx) return;
-
-            const bitmap = frames[index];
-            if (!bitmap) return;
-
-            // Clear any previously-drawn frame
-            const { width: canvasWidth, height: canvasHeight } = canvas;
-            ctx.clearRect(0, 0, canvasWidth, canvasHeight);
-
-            // Maintain aspect ratio while covering the entire canvas
-            const aspectRatio = bitmap.width / bitmap.height;
-            let drawWidth = canvasWidth;
-            let drawHeight = canvasWidth / aspectRatio;
-
-            if (drawHeight < canvasHeight) {
-                drawHeight = canvasHeight;
-                drawWidth = canvasHeight * aspectRatio;
+        (position: number) => {
+            const layout = getLayout(position);
+            const params = effects && resolveEffects(effects, frameToProgress(frames.length, position));
+            const applied = params && hasEffects(params) ? params : undefined;
+            if (rendererRef.current) {
+                rendererRef.current.draw(position, blend, layout, applied);
+                return;
             }
 
-            // Align image to the top; center horizontally
-            const offsetX = (canvasWidth - drawWidth) / 2;
-            const offsetY = 0;
-
-            ctx.drawImage(bitmap, offsetX, offsetY, drawWidth, drawHeight);
+            getDrawer()?.draw(frames, position, blend, layout, applied);
         },
-        [frames]
+        [frames, blend, effects, getDrawer, getLayout]
     );
 
+    /**
+     * Hand the canvas over to a renderer worker when `offscreen` is enabled.
+     * This has to run before anything calls getContext() on the canvas.
+     */
     useEffect(() => {
-        drawImage(0);
-        setTimeout(() => { onLoadProgress?.(100); }, 500);
+        const canvas = canvasRef.current;
+        if (!offscreen || !canvas || !isOffscreenCanvasSupported()) return;
+
+        // A canvas can only be transferred once, and StrictMode re-runs this effect
+        // on the same element, so termination is deferred and cancelled on re-run.
+        clearTimeout(rendererTimeoutRef.current);
+        if (rendererRef.current?.canvas !== canvas) {
+            try {
+                rendererRef.current = createFrameRenderer(canvas, blend);
+            } catch (err) {
+                console.warn("Could not transfer canvas offscreen, drawing on the main thread:", err);
+                return;
+            }
+        }
+        scaleCanvas();
+
+        return () => {
+            rendererTimeoutRef.current = setTimeout(() => {
+                rendererRef.current?.terminate();
+                rendererRef.current = null;
+            });
+        };
+    }, [offscreen, blend, scrubbing, scaleCanvas]);
+
+    /**
+     * Free the drawer's GPU resources on unmount, or when the canvas is swapped
+     * out for a reduced-motion fallback.
+     */
+    useEffect(() => {
+        return () => {
+            drawerRef.current?.dispose();
+            drawerRef.current = null;
+        };
+    }, [scrubbing]);
+
+    /**
+     * Re-draw the current frame whenever new frames are published.
+     */
+    useEffect(() => {
+        drawImage(currentFrameRef.current);
     }, [drawImage]);
 
     /**
@@ -171,7 +723,7 @@ export default function ScrollyVideo({
      */
     useEffect(() => {
         scaleCanvas();
-    }, [scaleCanvas]);
+    }, [scaleCanvas, scrubbing]);
 
     /**
      * Handle canvas resizing whenever the window size changes.
@@ -189,128 +741,600 @@ export default function ScrollyVideo({
     }, [scaleCanvas, drawImage]);
 
     /**
-     * Extract frames from the <video> once metadata is loaded (dimensions, duration, etc.).
-     * We sample frames uniformly based on maxFrames, and store them as ImageBitmaps in state.
+     * Work out frame timestamps, which seeking, chapters and the enclosing
+     * ScrollyTimeline's cues need. They're known upfront for a manifest; for a
+     * video they follow from its duration, which is available long before
+     * extraction finishes, with the picked tier's frame count.
+     */
+    useEffect(() => {
+        if (manifest) {
+            setFrameTimes(manifest.frames.map((frame) => frame.time));
+            return;
+        }
+
+        const videoEl = videoRef.current;
+        // Without scrubbing no frames are drawn, so any sampling lines cues up with the video
+        const frameCount = scrubbing
+            ? selectedQuality?.tier.maxFrames
+            : qualityTiers[qualityTiers.length - 1]?.maxFrames;
+        if (!video || !videoEl || !frameCount) return;
+
+        function handleMetadata() {
+            if (!videoEl || !frameCount) return;
+            setFrameTimes(sampleFrameTimes(videoEl.duration, baseFps, frameCount));
+        }
+
+        if (videoEl.readyState >= HTMLMediaElement.HAVE_METADATA) {
+            handleMetadata();
+        }
+        videoEl.addEventListener("loadedmetadata", handleMetadata);
+        return () => videoEl.removeEventListener("loadedmetadata", handleMetadata);
+    }, [video, manifest, baseFps, selectedQuality, qualityTiers, scrubbing, fallback]);
+
+    useEffect(() => {
+        if (frameTimes.length) setTimelineFrameTimes?.(frameTimes);
+    }, [frameTimes, setTimelineFrameTimes]);
+
+    /**
+     * Stops a running `play()`.
+     */
+    const playbackRef = useRef<AbortController | null>(null);
+
+    /**
+     * Scrolls to `progress` (0-1) through the container, or seeks the fallback
+     * <video> to the matching time.
+     */
+    const seekToProgress = useCallback((progress: number, { smooth = true }: SeekOptions = {}) => {
+        playbackRef.current?.abort();
+
+        const videoEl = videoRef.current;
+        if (fallback === "video" && videoEl) {
+            videoEl.currentTime = progressToTime(frameTimes, progress);
+            return;
+        }
+
+        const position = getScrollPositionForProgress(scrollSource, toScrollProgress(progress, direction)[0]);
+        if (position == null) return;
+        scrollToPosition(scrollSource, position, smooth ? "smooth" : "instant");
+    }, [fallback, frameTimes, scrollSource, direction]);
+
+    /**
+     * Scroll progress at which a chapter is shown.
+     */
+    const getChapterProgress = useCallback((chapter: ScrollyChapter) => {
+        if (chapter.time != null) return timeToProgress(frameTimes, chapter.time);
+        return frameToProgress(frameTimes.length, chapter.frame ?? 0);
+    }, [frameTimes]);
+
+    const seekToChapter = useCallback((id: string, options?: SeekOptions) => {
+        const chapter = chapters?.find((c) => c.id === id);
+        if (!chapter) return false;
+        seekToProgress(getChapterProgress(chapter), options);
+        return true;
+    }, [chapters, seekToProgress, getChapterProgress]);
+
+    useImperativeHandle(ref, () => ({
+        get currentFrame() {
+            return currentFrameRef.current;
+        },
+        get currentTime() {
+            const videoEl = videoRef.current;
+            if (fallback === "video" && videoEl) return videoEl.currentTime;
+            return progressToTime(frameTimes, frameToProgress(frameTimes.length, currentFrameRef.current));
+        },
+        seekTo: (time, options) => seekToProgress(timeToProgress(frameTimes, time), options),
+        seekToFrame: (frame, options) => seekToProgress(frameToProgress(frameTimes.length, frame), options),
+        seekToChapter,
+        async play({ until, speed = 1 } = {}) {
+            playbackRef.current?.abort();
+            const videoEl = videoRef.current;
+            if (fallback === "video" && videoEl) {
+                await videoEl.play();
+                return;
+            }
+
+            const progress = getCurrentScrollProgress(scrollSource);
+            const startPosition = getScrollPositionForProgress(scrollSource, progress);
+            if (startPosition == null || frameTimes.length < 2) return;
+
+            const controller = new AbortController();
+            playbackRef.current = controller;
+
+            const from = progressToTime(frameTimes, videoProgress.get());
+            const to = until ?? frameTimes[frameTimes.length - 1];
+            // Ping-pong shows `to` twice; prefer the one ahead of us
+            const targets = toScrollProgress(timeToProgress(frameTimes, to), direction);
+            const targetPosition = getScrollPositionForProgress(
+                scrollSource,
+                targets.find((target) => target >= progress) ?? targets[targets.length - 1]
+            ) ?? startPosition;
+            await animateScroll(scrollSource, startPosition, targetPosition, {
+                duration: Math.abs(to - from) / speed,
+                signal: controller.signal,
+            });
+            if (playbackRef.current === controller) playbackRef.current = null;
+        },
+        pause() {
+            playbackRef.current?.abort();
+            playbackRef.current = null;
+            videoRef.current?.pause();
+        },
+    }), [fallback, frameTimes, scrollSource, direction, videoProgress, seekToProgress, seekToChapter]);
+
+    /**
+     * Stop playing on unmount.
+     */
+    useEffect(() => () => playbackRef.current?.abort(), []);
+
+    /**
+     * Deep links: jump to the chapter named by the URL hash once we know where
+     * it is, and follow the hash as it changes.
+     */
+    const seekToChapterRef = useRef(seekToChapter);
+    useEffect(() => {
+        seekToChapterRef.current = seekToChapter;
+    }, [seekToChapter]);
+
+    // Only on load (once frame times are known), not whenever they're refined
+    const hasFrameTimes = frameTimes.length > 0;
+    useEffect(() => {
+        if (!hasFrameTimes) return;
+        const hashChapter = () => decodeURIComponent(window.location.hash.slice(1));
+
+        seekToChapterRef.current(hashChapter(), { smooth: false });
+
+        function handleHashChange() {
+            seekToChapterRef.current(hashChapter());
+        }
+        window.addEventListener("hashchange", handleHashChange);
+        return () => window.removeEventListener("hashchange", handleHashChange);
+    }, [hasFrameTimes]);
+
+    /**
+     * Snap to the nearest chapter once scrolling settles inside the section.
+     */
+    useEffect(() => {
+        if (!snap || !scrubbing || !chapters?.length || !frameTimes.length) return;
+
+        const scroller = getScroller(scrollSource);
+        let timer: ReturnType<typeof setTimeout>;
+        function handleScroll() {
+            clearTimeout(timer);
+            timer = setTimeout(() => {
+                if (!chapters || playbackRef.current) return;
+
+                const progress = getCurrentScrollProgress(scrollSource);
+                const current = getScrollPositionForProgress(scrollSource, progress);
+                if (current == null || progress <= 0 || progress >= 1) return;
+
+                const nearest = chapters
+                    .flatMap((chapter) => toScrollProgress(getChapterProgress(chapter), direction))
+                    .map((target) => getScrollPositionForProgress(scrollSource, target) ?? current)
+                    .reduce((best, position) => (Math.abs(position - current) < Math.abs(best - current) ? position : best));
+                const distance = Math.abs(nearest - current);
+                const viewport = scroller instanceof HTMLElement
+                    ? (axis === "x" ? scroller.clientWidth : scroller.clientHeight)
+                    : (axis === "x" ? window.innerWidth : window.innerHeight);
+                if (distance > 1 && distance < viewport / 2) {
+                    scrollToPosition(scrollSource, nearest, "smooth");
+                }
+            }, SNAP_DELAY);
+        }
+
+        scroller.addEventListener("scroll", handleScroll, { passive: true });
+        return () => {
+            clearTimeout(timer);
+            scroller.removeEventListener("scroll", handleScroll);
+        };
+    }, [snap, scrubbing, chapters, frameTimes, scrollSource, axis, direction, getChapterProgress]);
+
+    /**
+     * The soundtrack, if any; `true` means the video's own audio track.
+     */
+    const soundtrackOptions = soundtrack === true ? {} : soundtrack || null;
+    const soundtrackSrc = soundtrackOptions && (soundtrackOptions.src ?? video);
+    const soundtrackMode = soundtrackOptions?.mode;
+    const soundtrackFade = soundtrackOptions?.fade;
+
+    /**
+     * Sound only plays once the visitor has turned it on, and only alongside
+     * scrubbing, which is what it follows.
+     */
+    const soundOn = !!useContext(SoundContext)?.soundOn && scrubbing && !!soundtrackSrc;
+    const inView = useInView(containerRef, { root: scrollContainerRef });
+    const audioRef = useRef<ScrollAudio | null>(null);
+
+    /**
+     * The soundtrack's volume, filter and video time at `progress`.
+     */
+    const getSoundtrackParams = (progress: number) => ({
+        time: progressToTime(frameTimes, progress),
+        volume: getEffectValue(soundtrackOptions?.volume ?? 1, progress),
+        lowpass: getEffectValue(soundtrackOptions?.lowpass ?? NO_LOWPASS, progress),
+    });
+    const getSoundtrackParamsRef = useRef(getSoundtrackParams);
+    const inViewRef = useRef(inView);
+    useEffect(() => {
+        getSoundtrackParamsRef.current = getSoundtrackParams;
+        inViewRef.current = inView;
+    });
+
+    // Load the soundtrack when sound is turned on, and drop it when it's off
+    useEffect(() => {
+        if (!soundOn || !soundtrackSrc) return;
+        const controller = new AbortController();
+
+        createScrollAudio(soundtrackSrc, { mode: soundtrackMode, fade: soundtrackFade }, timeout, controller.signal)
+            .then((audio) => {
+                if (controller.signal.aborted) {
+                    audio.dispose();
+                    return;
+                }
+                audioRef.current = audio;
+                audio.update(getSoundtrackParamsRef.current(videoProgress.get()));
+                audio.setActive(inViewRef.current);
+            })
+            .catch((error) => {
+                if (controller.signal.aborted) return;
+                console.warn(`Soundtrack ${soundtrackSrc} couldn't be loaded:`, error);
+            });
+
+        return () => {
+            controller.abort();
+            audioRef.current?.dispose();
+            audioRef.current = null;
+        };
+    }, [soundOn, soundtrackSrc, soundtrackMode, soundtrackFade, timeout, videoProgress]);
+
+    // Fade in and out with the section
+    useEffect(() => {
+        audioRef.current?.setActive(inView);
+    }, [inView]);
+
+    useMotionValueEvent(videoProgress, "change", (progress) => {
+        audioRef.current?.update(getSoundtrackParams(progress));
+    });
+
+    /**
+     * A new source gets a fresh attempt at loading frames.
+     */
+    useEffect(() => {
+        setLoadError(null);
+    }, [video, manifest]);
+
+    /**
+     * Report load failures; the fallback is already rendering by then.
+     */
+    useEffect(() => {
+        if (loadError) onError?.(loadError);
+    }, [loadError, onError]);
+
+    /**
+     * Report the tier being loaded so callers can log it.
+     */
+    useEffect(() => {
+        if (selectedQuality) onQualityChange?.(selectedQuality);
+    }, [selectedQuality, onQualityChange]);
+
+    /**
+     * Under a provider, track whether the container is within `releaseDistance`
+     * viewports of the viewport (or scroll container) along the scroll axis;
+     * frames are only held while it is.
+     */
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!provider || !container) return;
+
+        const margin = `${provider.releaseDistance * 100}%`;
+        const observer = new IntersectionObserver(
+            ([entry]) => setNearViewport(entry.isIntersecting),
+            {
+                root: scrollContainerRef?.current,
+                rootMargin: axis === "x" ? `0px ${margin}` : `${margin} 0px`,
+            }
+        );
+        observer.observe(container);
+        return () => observer.disconnect();
+    }, [provider, containerRef, scrollContainerRef, axis]);
+
+    /**
+     * Extract frames once the component mounts. A build-time `frames` manifest is simply
+     * downloaded. For a `video`, frames cached by a previous visit are loaded straight
+     * from IndexedDB; otherwise WebCodecs decodes the file directly, and if that isn't
+     * available (or fails) we fall back to seeking the hidden <video>.
+     * With `worker` enabled both paths do their heavy lifting in a Web Worker.
+     * Frames are sampled uniformly based on maxFrames and stored as ImageBitmaps in state.
+     * Under a ScrollyVideoProvider, extraction waits for a slot, and frames are only
+     * loaded (and kept) while the container is near the viewport.
      */
     useEffect(() => {
-        if (!videoRef.current) return;
+        function reportProgress(progress: number) {
+            onLoadProgress?.(progress);
+            provider?.reportProgress(instanceId, progress);
+        }
+
+        // Nothing to extract for a reduced-motion fallback; it's ready straight away
+        if (!scrubbing) {
+            reportProgress(100);
+            onPlayable?.();
+            return () => provider?.reportProgress(instanceId, null);
+        }
+
         const videoEl = videoRef.current;
+        if (!nearViewport || (!manifest && !(video && videoEl))) return;
 
-        let isCancelled = false;
+        const controller = new AbortController();
+        let extractor: FrameExtractor | null = null;
         let frameArray: ImageBitmap[] = [];
+        let playable = false;
+        let publishRequest = 0;
 
-        // Offscreen canvas for drawing frames
-        const tempCanvas = document.createElement("canvas");
-        const ctx = tempCanvas.getContext("2d");
-        if (!ctx) return;
+        /**
+         * Where frames will be cached once extraction finishes, set on a cache miss.
+         * Offscreen rendering detaches frames as they're published, so copies for the
+         * cache are taken first.
+         */
+        let cacheTarget: { key: string; version: string | null } | null = null;
+        let cacheCopies: Promise<ImageBitmap>[] = [];
 
-        async function extractFrames() {
-            try {
-                // 1) Wait for metadata if not ready
-                if (videoEl.readyState < 1) {
-                    await new Promise<void>((resolve) => {
-                        const onMetadataLoaded = () => {
-                            videoEl.removeEventListener("loadedmetadata", onMetadataLoaded);
-                            resolve();
-                        };
-                        videoEl.addEventListener("loadedmetadata", onMetadataLoaded, { once: true });
-                    });
+        /**
+         * Publishes each frame as soon as it's extracted. State updates are batched
+         * per animation frame so a burst of frames only re-renders once.
+         */
+        function publishFrame(index: number, bitmap: ImageBitmap, total: number) {
+            if (frameArray.length !== total) frameArray = new Array(total);
+            frameArray[index] = bitmap;
+
+            const renderer = rendererRef.current;
+            if (renderer && cacheTarget) {
+                const copy = createImageBitmap(bitmap);
+                cacheCopies[index] = copy;
+                copy.finally(() => renderer.setFrame(index, bitmap));
+            } else {
+                renderer?.setFrame(index, bitmap);
+            }
+
+            cancelAnimationFrame(publishRequest);
+            publishRequest = requestAnimationFrame(() => setFrames(frameArray.slice()));
+
+            if (!playable && coversTimeline(total)) {
+                playable = true;
+                onPlayable?.();
+            }
+        }
+
+        /**
+         * Whether the loaded frames span the whole timeline at `playableThreshold`
+         * density: every Nth slot (and the last) is filled, whichever order the
+         * backend delivers them in. WebCodecs decodes front to back, so counting
+         * frames would turn playable with only the start of the video loaded.
+         */
+        function coversTimeline(total: number): boolean {
+            const stride = Math.max(1, Math.floor(1 / playableThreshold));
+            for (let i = 0; i < total; i += stride) {
+                if (!frameArray[i]) return false;
+            }
+            return frameArray[total - 1] != null;
+        }
+
+        /**
+         * Drops published frames when a backend fails partway and we fall back to
+         * another one. The failed backend closes its own bitmaps.
+         */
+        function resetFrames() {
+            cancelAnimationFrame(publishRequest);
+            cacheCopies.forEach((copy) => copy.then((bitmap) => bitmap.close(), () => {}));
+            cacheCopies = [];
+            frameArray = [];
+            setFrames([]);
+            rendererRef.current?.reset();
+        }
+
+        /**
+         * Which tiers to load, planned from the device, its connection and the
+         * canvas' size (unless a tier is forced with `quality`).
+         */
+        const tiers = qualityTiers.map((tier) => ({
+            ...tier,
+            maxWidth: Math.min(tier.maxWidth, maxWidth ?? Infinity),
+            maxHeight: Math.min(tier.maxHeight, maxHeight ?? Infinity),
+            maxFrames: Math.min(tier.maxFrames, maxFrames ?? Infinity),
+        }));
+        const forcedTier = quality === "auto" ? undefined : tiers.find((tier) => tier.name === quality);
+        if (quality !== "auto" && !forcedTier) {
+            console.warn(`Unknown quality tier "${quality}", picking one automatically`);
+        }
+
+        let plan: QualityPlan;
+        if (forcedTier) {
+            const selection = { tier: forcedTier, rendition: selectRendition(renditions ?? [], forcedTier) };
+            plan = { initial: selection, target: selection };
+        } else {
+            const rect = canvasRef.current?.getBoundingClientRect();
+            plan = planQuality({
+                tiers,
+                renditions,
+                signals: getQualitySignals(),
+                width: rect?.width ?? window.innerWidth,
+                height: rect?.height ?? window.innerHeight,
+            });
+        }
+
+        function getOptions({ tier }: QualitySelection, onFrame?: FrameExtractionOptions["onFrame"]): FrameExtractionOptions {
+            return {
+                maxWidth: tier.maxWidth,
+                maxHeight: tier.maxHeight,
+                maxFrames: tier.maxFrames,
+                baseFps,
+                timeout,
+                retries,
+                signal: controller.signal,
+                onProgress: onFrame && reportProgress,
+                onFrame,
+            };
+        }
+
+        /**
+         * Decodes `src` into an array of frames, setting cacheTarget if they should be
+         * written to the cache afterwards. `onRetry` runs when a backend fails partway
+         * and the next one is tried.
+         */
+        async function decodeVideo(
+            src: string,
+            videoEl: HTMLVideoElement,
+            options: FrameExtractionOptions,
+            onRetry: () => void
+        ): Promise<ImageBitmap[]> {
+            cacheTarget = null;
+
+            // 1) Try frames cached by a previous visit
+            const cacheKey = cache && isFrameCacheSupported()
+                ? getFrameCacheKey({ video: src, ...options })
+                : null;
+            if (cacheKey) {
+                let version: string | null = null;
+                try {
+                    version = await fetchVideoVersion(src, controller.signal);
+                    const cached = await readCachedFrames(cacheKey, version, options);
+                    if (cached) return cached;
+                } catch (err) {
+                    if (controller.signal.aborted) throw err;
+                    console.warn("Could not read cached frames:", err);
+                    onRetry();
                 }
+                cacheTarget = { key: cacheKey, version };
+            }
 
-                // 2) Attempt a brief play on iOS to unlock decoding
+            if (worker && isWorkerSupported()) {
+                extractor ??= createFrameExtractor();
+                options.scaleFrame = extractor.scale;
+            }
+
+            // 2) Decode with WebCodecs
+            if (decoder === "webcodecs" && isWebCodecsSupported()) {
                 try {
-                    videoEl.muted = true;
-                    videoEl.playsInline = true; // also ensure <video playsInline> in JSX
-                    await videoEl.play();
-                    // Let it play for ~200ms
-                    await new Promise((resolve) => setTimeout(resolve, 200));
-                    videoEl.pause();
+                    return extractor
+                        // Workers don't share the page's base URL
+                        ? await extractor.extract(new URL(src, document.baseURI).href, options)
+                        : await extractFramesWithWebCodecs(src, options);
                 } catch (err) {
-                    console.warn("Could not auto-play to unlock decoding:", err);
+                    if (controller.signal.aborted) throw err;
+                    console.warn("WebCodecs extraction failed, falling back to seeking:", err);
+                    onRetry();
                 }
+            }
 
-                // 3) Determine scaled extraction dimensions
-                const videoWidth = videoEl.videoWidth;
-                const videoHeight = videoEl.videoHeight;
-                const aspect = videoWidth / videoHeight;
+            // 3) Fall back to seeking the <video>, pointed at the chosen rendition
+            const url = new URL(src, document.baseURI).href;
+            if (videoEl.src !== url) videoEl.src = url;
+            return await extractFramesBySeeking(videoEl, options);
+        }
 
-                let targetWidth = videoWidth;
-                let targetHeight = videoHeight;
+        /**
+         * Loads the frames for a selection, from the manifest or by decoding the video.
+         */
+        async function loadFrames(selection: QualitySelection, options: FrameExtractionOptions, onRetry: () => void) {
+            if (manifest) {
+                // Frames pre-extracted at build time only need downloading
+                return await loadFramesFromManifest(manifest, options);
+            }
+            if (!video || !videoEl) return [];
+            return await decodeVideo(selection.rendition?.src ?? video, videoEl, options, onRetry);
+        }
 
-                if (targetWidth > maxWidth) {
-                    targetWidth = maxWidth;
-                    targetHeight = Math.floor(targetWidth / aspect);
-                }
-                if (targetHeight > maxHeight) {
-                    targetHeight = maxHeight;
-                    targetWidth = Math.floor(targetHeight * aspect);
-                }
+        /**
+         * Encoding is slow, so frames are cached in the background once they're
+         * showing. `copies` are closed afterwards unless they're the frames on screen.
+         */
+        function cacheFrames(copies: ImageBitmap[], owned: boolean) {
+            if (!cacheTarget) return;
+            writeCachedFrames(cacheTarget.key, cacheTarget.version, copies, { maxBytes: cacheMaxBytes })
+                .catch((err) => console.warn("Could not cache frames:", err))
+                .finally(() => {
+                    if (owned) copies.forEach((bitmap) => bitmap?.close());
+                });
+        }
 
-                tempCanvas.width = targetWidth;
-                tempCanvas.height = targetHeight;
-
-                // 4) Calculate how many frames to extract
-                const totalDuration = videoEl.duration;
-                const totalFrames = Math.floor(totalDuration * baseFps);
-                const frameSkip = Math.max(1, Math.floor(totalFrames / maxFrames));
-
-                // 5) Loop over frames
-                for (let frameCount = 0; frameCount < totalFrames; frameCount += frameSkip) {
-                    if (isCancelled) break;
-
-                    // 5a) Seek to the correct time
-                    const seekTime = (frameCount / totalFrames) * totalDuration;
-                    videoEl.currentTime = seekTime;
-
-                    // 5b) Wait for "seeked"
-                    await new Promise<void>((resolve) => {
-                        const handleSeeked = () => {
-                            videoEl.removeEventListener("seeked", handleSeeked);
-                            resolve();
-                        };
-                        videoEl.addEventListener("seeked", handleSeeked);
-                    });
+        /**
+         * Loads the target tier without touching what's on screen, then swaps it in.
+         */
+        async function upgradeFrames() {
+            const upgraded = await loadFrames(plan.target, getOptions(plan.target), () => {});
+            if (controller.signal.aborted) {
+                upgraded.forEach((bitmap) => bitmap?.close());
+                return;
+            }
 
-                    // 5c) Wait until enough data is buffered to draw
-                    while (videoEl.readyState < HTMLMediaElement.HAVE_FUTURE_DATA) {
-                        // canplay or canplaythrough -> indicates enough data to play forward
-                        await new Promise<void>((resolve) => {
-                            const onCanPlay = () => {
-                                videoEl.removeEventListener("canplay", onCanPlay);
-                                resolve();
-                            };
-                            videoEl.addEventListener("canplay", onCanPlay, { once: true });
-                        });
-                        if (isCancelled) break;
-                    }
-
-                    if (isCancelled) break;
-
-                    // 5d) Draw the frame onto the offscreen canvas
-                    ctx?.drawImage(videoEl, 0, 0, targetWidth, targetHeight);
-
-                    // 5e) Convert to ImageBitmap
-                    try {
-                        const bitmap = await createImageBitmap(tempCanvas);
-                        frameArray.push(bitmap);
-
-                        // 5f) Update progress
-                        const progress = Math.floor((frameArray.length / maxFrames) * 100);
-                        if (progress < 100) onLoadProgress?.(progress);
-                    } catch (err) {
-                        console.error("Failed to create ImageBitmap", err);
-                    }
-                }
+            // The renderer worker takes ownership of what it's sent, so cache copies
+            const renderer = rendererRef.current;
+            const copies = renderer && cacheTarget
+                ? await Promise.all(upgraded.map((bitmap) => createImageBitmap(bitmap)))
+                : upgraded;
+            if (renderer) {
+                renderer.reset();
+                upgraded.forEach((bitmap, index) => renderer.setFrame(index, bitmap));
+            }
+
+            const previous = frameArray;
+            frameArray = upgraded;
+            setFrames(upgraded);
+            setQuality(plan.target);
+            previous.forEach((bitmap) => bitmap?.close());
+
+            cacheFrames(copies, copies !== upgraded);
+        }
+
+        /**
+         * How far our container is from the viewport, so the provider can serve
+         * the nearest instance first.
+         */
+        function distanceFromViewport() {
+            const rect = containerRef.current?.getBoundingClientRect();
+            if (!rect) return Infinity;
+            return Math.max(0, rect.top - window.innerHeight, -rect.bottom);
+        }
+
+        async function extractFrames() {
+            let release: (() => void) | undefined;
+            try {
+                // Wait for our turn behind any other instances
+                reportProgress(0);
+                release = await provider?.scheduler.acquire(distanceFromViewport, controller.signal);
+
+                setQuality(plan.initial);
+                frameArray = await loadFrames(plan.initial, getOptions(plan.initial, publishFrame), resetFrames);
 
                 // Final progress = 100%
-                onLoadProgress?.(100);
+                reportProgress(100);
+
+                // If not cancelled, store the complete frame array. When drawing offscreen
+                // the bitmaps were transferred to the renderer as they were published,
+                // leaving detached ones behind; we still keep them in state so the frame
+                // count drives the scroll mapping.
+                if (controller.signal.aborted) return;
+                cancelAnimationFrame(publishRequest);
+                setFrames(frameArray);
+
+                if (rendererRef.current) {
+                    cacheFrames(await Promise.all(cacheCopies), true);
+                } else {
+                    cacheFrames(frameArray, false);
+                }
 
-                // 6) If not cancelled, store the frames
-                if (!isCancelled) {
-                    setFrames(frameArray);
+                // Swap in better frames if the connection still allows it
+                if (plan.target !== plan.initial && canUpgradeQuality(getQualitySignals())) {
+                    await upgradeFrames().catch((err) => {
+                        if (!controller.signal.aborted) console.warn("Could not upgrade frames:", err);
+                    });
                 }
             } catch (error) {
-                console.error("Error extracting frames:", error);
+                if (controller.signal.aborted) return;
+                const videoError = toScrollyVideoError(error);
+                console.error(`Error extracting frames (${videoError.kind}):`, videoError);
+                setLoadError(videoError);
+            } finally {
+                extractor?.terminate();
+                release?.();
             }
         }
 
@@ -319,42 +1343,125 @@ export default function ScrollyVideo({
 
         // Cleanup on unmount
         return () => {
-            isCancelled = true;
+            controller.abort();
             frameArray.forEach((bitmap) => bitmap.close());
-            frameArray = [];
-            setFrames([]);
+            resetFrames();
             onLoadProgress?.(0);
+            provider?.reportProgress(instanceId, null);
         };
     }, [
         video,
+        manifest,
+        decoder,
+        worker,
+        cache,
+        cacheMaxBytes,
         maxWidth,
         maxHeight,
         baseFps,
         maxFrames,
-        onLoadProgress, // or any other props you rely on
+        quality,
+        qualityTiers,
+        renditions,
+        timeout,
+        retries,
+        playableThreshold,
+        onPlayable,
+        onLoadProgress,
+        scrubbing,
+        nearViewport,
+        provider,
+        instanceId,
+        containerRef,
     ]);
 
+    const posterSrc = poster ?? manifest?.frames[0]?.src;
+
+    // Fallbacks are framed like the canvas, at the focal point the video opens on
+    const fallbackFocus = getFocalPoint(focalPoint, 0);
+    const fallbackStyle = {
+        objectFit: fit,
+        objectPosition: `${fallbackFocus.x * 100}% ${fallbackFocus.y * 100}%`,
+        filter: effects && getCanvasFilter(resolveEffects(effects, 0)),
+    };
+
+    if (fallback === "video") {
+        return (
+            <video
+                ref={videoRef}
+                src={video}
+                poster={poster}
+                controls
+                playsInline
+                preload="metadata"
+                aria-label={alt}
+                className={props.className}
+                style={fallbackStyle}
+            />
+        );
+    }
+
+    if (fallback === "poster") {
+        if (!posterSrc) {
+            // Without a poster, a paused <video> shows the first frame
+            return (
+                <video
+                    ref={videoRef}
+                    src={`${video}#t=0.001`}
+                    playsInline
+                    muted
+                    preload="metadata"
+                    aria-label={alt}
+                    className={props.className}
+                    style={fallbackStyle}
+                />
+            );
+        }
+
+        return (
+            <>
+                <img src={posterSrc} alt={alt ?? ""} className={props.className} style={fallbackStyle} />
+
+                {/* Still needed for its duration, which positions timeline cues */}
+                {!manifest && (
+                    <video ref={videoRef} src={video} preload="metadata" muted className="hidden" />
+                )}
+            </>
+        );
+    }
+
     return (
         <>
             {/*
             * Canvas to display the current frame. 
             * We use framer-motion's motion.canvas for potential animations/styling.
+            * With `offscreen` enabled, a worker draws into it instead.
             */}
-            <motion.canvas ref={canvasRef} {...props} />
+            <motion.canvas
+                ref={canvasRef}
+                role={alt ? "img" : undefined}
+                aria-label={alt}
+                {...props}
+            />
 
             {/*
             * Hidden <video> element used only for decoding frames. 
             * 'playsInline' ensures mobile browsers handle inline playback.
+            * Not needed when frames come from a build-time manifest.
             */}
-            <video
-                ref={videoRef}
-                src={video}
-                playsInline
-                muted
-                autoPlay
-                crossOrigin="anonymous"
-                className="hidden"
-            />
+            {!manifest && (
+                <video
+                    ref={videoRef}
+                    src={video}
+                    playsInline
+                    muted
+                    autoPlay
+                    crossOrigin="anonymous"
+                    className="hidden"
+                />
+            )}
         </>
     );
 }
+
+export default forwardRef(ScrollyVideo);
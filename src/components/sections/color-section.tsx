@@ -0,0 +1,45 @@
+import { useId } from "react";
+import ScrollColorSection, { ScrollColorStop } from "@/components/scroll-color-section";
+import { ColorSection as ColorSectionContent } from "@/lib/story";
+
+interface ColorSectionProps {
+    section: ColorSectionContent;
+
+    /** Lets navigation link to the section. */
+    id?: string;
+}
+
+const BACKGROUND_IMAGE = /^(url|(repeating-)?(linear|radial|conic)-gradient)\(/;
+
+/**
+ * Story colors may also be gradients or `url(...)` images; those become
+ * background stops rather than color stops.
+ */
+function toStop(value: string): ScrollColorStop {
+    return BACKGROUND_IMAGE.test(value.trim()) ? { background: value } : { color: value };
+}
+
+/**
+ * A pinned section whose background moves through its colors as the user
+ * scrolls through it.
+ */
+export default function ColorSection({ section, id }: ColorSectionProps) {
+    const { title, body, colors } = section;
+    const titleId = useId();
+
+    return (
+        <ScrollColorSection
+            stops={colors.map(toStop)}
+            contentClassName="flex flex-col items-center justify-center text-white"
+            aria-labelledby={titleId}
+            id={id}
+        >
+            <h3 id={titleId} className="text-4xl font-bold mb-4">{title}</h3>
+            {body && (
+                <p className="max-w-2xl text-center">
+                    {body}
+                </p>
+            )}
+        </ScrollColorSection>
+    );
+}
@@ -0,0 +1,177 @@
+import { motion, useScroll, useSpring } from "motion/react";
+import { useRef } from "react";
+import ScrollyTimeline from "@/components/scrolly-timeline";
+import ScrollyVideo from "@/components/scrolly-video";
+import StoryCard from "@/components/sections/story-card";
+import SoundToggle from "@/components/sound-toggle";
+import TimelineCue from "@/components/timeline-cue";
+import { useVideoLoadAnalytics } from "@/lib/analytics";
+import { QualitySelection } from "@/lib/quality";
+import { ScrollyVideoError } from "@/lib/video-errors";
+import { ScrollyVideoSection as ScrollyVideoSectionContent, StoryCaption } from "@/lib/story";
+import { getScrollyVideoLabel } from "@/lib/story-navigation";
+
+interface ScrollyVideoSectionProps {
+    section: ScrollyVideoSectionContent;
+
+    /**
+     * Let navigation link to the section and to each of its cards.
+     */
+    id?: string;
+    cardIds?: (string | undefined)[];
+
+    /**
+     * Forwarded to ScrollyVideo; the page uses them to drive its loading overlay.
+     */
+    onLoadProgress?: (progress: number) => void;
+    onPlayable?: () => void;
+    onError?: (error: ScrollyVideoError) => void;
+
+    /**
+     * Forwarded to ScrollyVideo, so the page can log the quality it picked.
+     */
+    onQualityChange?: (selection: QualitySelection) => void;
+}
+
+function Caption({ text, style = "caption", start, end, fade }: StoryCaption) {
+    if (style === "title") {
+        // Titles drift up as they fade out
+        return (
+            <TimelineCue
+                start={start}
+                end={end}
+                fade={fade}
+                from={{ y: 0 }}
+                to={{ y: -40 }}
+                className="absolute inset-0 flex items-center justify-center text-white"
+            >
+                <h1
+                    className="text-4xl font-bold"
+                    style={{
+                        textShadow: "5 0 10px rgba(0, 0, 0, 0.8)",
+                    }}
+                >
+                    {text}
+                </h1>
+            </TimelineCue>
+        );
+    }
+
+    return (
+        <TimelineCue
+            start={start}
+            end={end}
+            fade={fade}
+            className="absolute inset-x-0 bottom-16 flex justify-center px-4"
+        >
+            <p className="max-w-2xl rounded bg-black/60 px-4 py-2 text-center text-lg text-white">
+                {text}
+            </p>
+        </TimelineCue>
+    );
+}
+
+/**
+ * A pinned ScrollyVideo with captions timed to the video and cards scrolling
+ * over it. The cards' height sets how long the video stays pinned.
+ */
+export default function ScrollyVideoSection({
+    section,
+    id,
+    cardIds = [],
+    onLoadProgress,
+    onPlayable,
+    onError,
+    onQualityChange,
+}: ScrollyVideoSectionProps) {
+    const {
+        video,
+        alt,
+        poster,
+        maxFrames,
+        quality,
+        renditions,
+        blend = "webgl",
+        fit,
+        focalPoint,
+        artDirection,
+        effects,
+        soundtrack,
+        chapters,
+        snap,
+        captions = [],
+        cards = [],
+    } = section;
+
+    // Name the landmark after the section's title, if it has one
+    const label = getScrollyVideoLabel(section);
+
+    // Time the video's loading for analytics, passing progress on to the page
+    const loadAnalytics = useVideoLoadAnalytics(video, onLoadProgress, onQualityChange);
+
+    const sectionRef = useRef<HTMLDivElement>(null);
+    const { scrollYProgress } = useScroll({
+        target: sectionRef,
+        offset: ["start start", "end end"],
+    });
+    const scaleX = useSpring(scrollYProgress, {
+        stiffness: 100,
+        damping: 30,
+        restDelta: 0.001,
+    });
+
+    return (
+        <section
+            ref={sectionRef}
+            id={id}
+            aria-label={label}
+            className="relative min-h-[200vh] bg-gray-50"
+        >
+            <div className="sticky top-0 h-screen w-full" data-cursor-label="Scroll">
+                <ScrollyTimeline containerRef={sectionRef}>
+                    <ScrollyVideo
+                        video={video}
+                        containerRef={sectionRef}
+                        className="h-full w-full object-cover -z-1"
+                        alt={alt}
+                        poster={poster}
+                        onLoadProgress={loadAnalytics.onLoadProgress}
+                        onPlayable={onPlayable}
+                        onError={onError}
+                        playableThreshold={0.25}
+                        blend={blend}
+                        fit={fit}
+                        focalPoint={focalPoint}
+                        artDirection={artDirection}
+                        effects={effects}
+                        soundtrack={soundtrack}
+                        maxFrames={maxFrames}
+                        quality={quality}
+                        renditions={renditions}
+                        onQualityChange={loadAnalytics.onQualityChange}
+                        chapters={chapters}
+                        snap={snap}
+                    />
+
+                    {captions.map((caption, index) => (
+                        <Caption key={index} {...caption} />
+                    ))}
+                </ScrollyTimeline>
+
+                {soundtrack && <SoundToggle className="absolute bottom-10 right-4" />}
+
+                <motion.div
+                    aria-hidden
+                    className="absolute bottom-6 left-0 right-0 h-1 bg-red-500 origin-center"
+                    style={{ scaleX }}
+                />
+            </div>
+
+            <div className="flex flex-col z-10">
+                {cards.map((card, index) => (
+                    <StoryCard key={index} id={cardIds[index]} card={card} />
+                ))}
+            </div>
+        </section>
+    );
+}
@@ -0,0 +1,32 @@
+import InfoCard from "@/components/info-card";
+import { StoryCard as StoryCardContent } from "@/lib/story";
+
+interface StoryCardProps {
+    card: StoryCardContent;
+
+    /** Lets navigation link to the card. */
+    id?: string;
+}
+
+/**
+ * An InfoCard from a story, on its own or scrolling over a video.
+ */
+export default function StoryCard({ card, id }: StoryCardProps) {
+    return (
+        <InfoCard
+            id={id}
+            title={card.title}
+            image={card.image}
+            media={card.media}
+            variant={card.variant}
+            attribution={card.attribution}
+            stat={card.stat}
+            align={card.align}
+            height={card.height}
+            animation={card.animation}
+            exit={card.exit}
+        >
+            {card.body}
+        </InfoCard>
+    );
+}
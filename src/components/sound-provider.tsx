@@ -0,0 +1,34 @@
+import { ReactNode, useMemo, useState } from "react";
+import { SoundContext, suspendAudio, unlockAudio } from "@/lib/scroll-audio";
+
+interface SoundProviderProps {
+    children: ReactNode;
+}
+
+/**
+ * SoundProvider holds the page's sound switch. Sound starts off, as browsers
+ * require; a SoundToggle inside turns it on for every ScrollyVideo with a
+ * soundtrack at once.
+ */
+export default function SoundProvider({ children }: SoundProviderProps) {
+    const [soundOn, setSoundOn] = useState(false);
+
+    const value = useMemo(() => ({
+        soundOn,
+        toggleSound() {
+            if (soundOn) {
+                suspendAudio();
+            } else {
+                // Still inside the click, where audio may be unlocked
+                void unlockAudio();
+            }
+            setSoundOn(!soundOn);
+        },
+    }), [soundOn]);
+
+    return (
+        <SoundContext.Provider value={value}>
+            {children}
+        </SoundContext.Provider>
+    );
+}
@@ -0,0 +1,26 @@
+import { useContext } from "react";
+import { SoundContext } from "@/lib/scroll-audio";
+
+interface SoundToggleProps {
+    className?: string;
+}
+
+/**
+ * A button turning the page's soundtracks on and off. Renders nothing outside
+ * a SoundProvider.
+ */
+export default function SoundToggle({ className = "" }: SoundToggleProps) {
+    const sound = useContext(SoundContext);
+    if (!sound) return null;
+
+    return (
+        <button
+            type="button"
+            onClick={sound.toggleSound}
+            data-cursor-magnetic
+            className={"rounded-full bg-black/60 px-4 py-2 text-sm font-semibold text-white hover:bg-black/80 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-400 " + className}
+        >
+            {sound.soundOn ? "Sound off" : "Sound on"}
+        </button>
+    );
+}
@@ -0,0 +1,72 @@
+import { useMemo } from "react";
+import ColorSection from "@/components/sections/color-section";
+import ScrollyVideoSection from "@/components/sections/scrolly-video-section";
+import StoryCard from "@/components/sections/story-card";
+import { QualitySelection } from "@/lib/quality";
+import { Story } from "@/lib/story";
+import { getStoryNavId, getStoryNavigation } from "@/lib/story-navigation";
+import { ScrollyVideoError } from "@/lib/video-errors";
+
+interface StoryRendererProps {
+    story: Story;
+
+    /**
+     * Load progress (0-100) of the first scrolly video, which is what the
+     * visitor sees first.
+     */
+    onLoadProgress?: (progress: number) => void;
+
+    /**
+     * Fired once the first scrolly video has loaded enough frames to scroll.
+     */
+    onPlayable?: () => void;
+
+    /**
+     * Fired if the first scrolly video's frames can't be loaded. It shows a
+     * fallback instead, so the page stays usable.
+     */
+    onError?: (error: ScrollyVideoError) => void;
+
+    /**
+     * Fired whenever a scrolly video picks (or upgrades to) a quality tier.
+     */
+    onQualityChange?: (selection: QualitySelection) => void;
+}
+
+/**
+ * Turns a story (see src/lib/story.ts) into the page's sections, in order.
+ * Sections and cards get the ids `getStoryNavigation` lists, for the header
+ * to link to.
+ */
+export default function StoryRenderer({ story, onLoadProgress, onPlayable, onError, onQualityChange }: StoryRendererProps) {
+    const firstVideo = story.sections.findIndex((section) => section.type === "scrolly-video");
+    const navigation = useMemo(() => getStoryNavigation(story), [story]);
+
+    return (
+        <>
+            {story.sections.map((section, index) => {
+                switch (section.type) {
+                    case "scrolly-video":
+                        return (
+                            <ScrollyVideoSection
+                                key={index}
+                                section={section}
+                                id={getStoryNavId(navigation, index)}
+                                cardIds={section.cards?.map((_, card) => getStoryNavId(navigation, index, card))}
+                                onLoadProgress={index === firstVideo ? onLoadProgress : undefined}
+                                onPlayable={index === firstVideo ? onPlayable : undefined}
+                                onError={index === firstVideo ? onError : undefined}
+                                onQualityChange={onQualityChange}
+                            />
+                        );
+
+                    case "info-card":
+                        return <StoryCard key={index} id={getStoryNavId(navigation, index)} card={section} />;
+
+                    case "color":
+                        return <ColorSection key={index} id={getStoryNavId(navigation, index)} section={section} />;
+                }
+            })}
+        </>
+    );
+}
@@ -0,0 +1,137 @@
+import { HTMLMotionProps, motion, useReducedMotion, useTransform } from "motion/react";
+import { useContext } from "react";
+import {
+    CueRange,
+    frameToProgress,
+    getCueOpacity,
+    getCueProgress,
+    ScrollyTimelineContext,
+    timeToProgress,
+} from "@/lib/timeline";
+
+/**
+ * Transform values a cue animates between over its span.
+ */
+export interface CueTransform {
+    x?: number;
+    y?: number;
+    scale?: number;
+    rotate?: number;
+}
+
+const IDENTITY: Required<CueTransform> = { x: 0, y: 0, scale: 1, rotate: 0 };
+
+interface TimelineCueProps extends HTMLMotionProps<"div"> {
+    /**
+     * When the cue appears, in seconds of video time.
+     */
+    start?: number;
+
+    /**
+     * When the cue disappears, in seconds of video time.
+     */
+    end?: number;
+
+    /**
+     * When the cue appears, as a frame number. Takes precedence over `start`.
+     */
+    startFrame?: number;
+
+    /**
+     * When the cue disappears, as a frame number. Takes precedence over `end`.
+     */
+    endFrame?: number;
+
+    /**
+     * How long the cue takes to fade in and out, in the same unit as its
+     * start/end (seconds, or frames for frame cues). Pass a pair for separate
+     * fade-in and fade-out lengths. Defaults to 0 (no fade).
+     */
+    fade?: number | [number, number];
+
+    /**
+     * Transform at the start of the cue. Defaults to none.
+     */
+    from?: CueTransform;
+
+    /**
+     * Transform at the end of the cue. Defaults to `from`.
+     */
+    to?: CueTransform;
+}
+
+/**
+ * An overlay shown while the surrounding ScrollyTimeline's video is between
+ * the cue's start and end. Everything else (position, layout) is up to the
+ * className, e.g. "absolute inset-0 flex items-center justify-center".
+ * Hidden cues are made invisible to pointer events and assistive technology,
+ * and transforms are skipped when the user prefers reduced motion.
+ */
+export default function TimelineCue({
+    start = 0,
+    end,
+    startFrame,
+    endFrame,
+    fade = 0,
+    from = IDENTITY,
+    to = from,
+    style,
+    ...props
+}: TimelineCueProps) {
+    const timeline = useContext(ScrollyTimelineContext);
+    if (!timeline) {
+        throw new Error("TimelineCue must be rendered inside a ScrollyTimeline");
+    }
+    const { progress, frameTimes } = timeline;
+    const reduceMotion = useReducedMotion();
+
+    // Convert the cue's span (in frames or seconds) to scroll progress
+    const [fadeIn, fadeOut] = typeof fade === "number" ? [fade, fade] : fade;
+    let range: CueRange;
+    if (startFrame != null || endFrame != null) {
+        const first = startFrame ?? 0;
+        const last = endFrame ?? frameTimes.length - 1;
+        const toProgress = (frame: number) => frameToProgress(frameTimes.length, frame);
+        range = {
+            start: toProgress(first),
+            fadeInEnd: toProgress(first + fadeIn),
+            fadeOutStart: toProgress(last - fadeOut),
+            end: toProgress(last),
+        };
+    } else {
+        const last = end ?? frameTimes[frameTimes.length - 1] ?? 0;
+        const toProgress = (time: number) => timeToProgress(frameTimes, time);
+        range = {
+            start: toProgress(start),
+            fadeInEnd: toProgress(start + fadeIn),
+            fadeOutStart: toProgress(last - fadeOut),
+            end: toProgress(last),
+        };
+    }
+
+    // Nothing is known about the video yet, so there's nowhere to place the cue
+    const ready = frameTimes.length > 0;
+
+    const opacity = useTransform(progress, (p) => (ready ? getCueOpacity(p, range) : 0));
+    const visibility = useTransform(opacity, (o) => (o > 0 ? "visible" : "hidden"));
+    const pointerEvents = useTransform(opacity, (o) => (o > 0 ? "auto" : "none"));
+
+    const lerp = (key: keyof CueTransform) =>
+        (p: number) => {
+            if (reduceMotion) return IDENTITY[key];
+            const a = from[key] ?? IDENTITY[key];
+            const b = to[key] ?? IDENTITY[key];
+            return a + (b - a) * getCueProgress(p, range);
+        };
+    const x = useTransform(progress, lerp("x"));
+    const y = useTransform(progress, lerp("y"));
+    const scale = useTransform(progress, lerp("scale"));
+    const rotate = useTransform(progress, lerp("rotate"));
+
+    return (
+        <motion.div
+            {...props}
+            style={{ ...style, opacity, visibility, pointerEvents, x, y, scale, rotate }}
+        />
+    );
+}
@@ -0,0 +1,40 @@
+import { StrictMode } from 'react'
+import { renderToString } from 'react-dom/server'
+import App from './App.tsx'
+import CustomCursor from './components/custom-cursor.tsx'
+import { getStoryPath, STORIES, STORY_INDEX_DESCRIPTION, STORY_INDEX_TITLE } from './lib/stories.ts'
+import { StoryMeta } from './lib/story-meta.ts'
+
+/**
+ * Server entry for the prerender plugin (plugins/prerender.ts): renders each
+ * page to HTML at build time, so crawlers and link previews see its text,
+ * and describes it for the <head>. main.tsx then hydrates the markup.
+ */
+
+export interface PrerenderPage extends StoryMeta {
+    /** Where the page lives, relative to the site's base, e.g. "/". */
+    path: string;
+
+    /** Rendered as 404.html instead, for any URL that isn't a page. */
+    notFound?: boolean;
+}
+
+export function getPages(): PrerenderPage[] {
+    return [
+        { path: '/', title: STORY_INDEX_TITLE, description: STORY_INDEX_DESCRIPTION },
+        ...STORIES.map(({ slug, meta }) => ({ path: getStoryPath(slug), ...meta })),
+        { path: '/404/', title: 'Page not found', notFound: true },
+    ]
+}
+
+/**
+ * Renders the same tree as main.tsx, as HTML, at `path`.
+ */
+export function render(path: string): string {
+    return renderToString(
+        <StrictMode>
+            <App path={path} />
+            <CustomCursor />
+        </StrictMode>,
+    )
+}
@@ -0,0 +1,292 @@
+import { createContext, RefObject, useCallback, useContext, useEffect, useRef } from "react";
+import { QualitySelection } from "@/lib/quality";
+
+/**
+ * Reading analytics for story pages: how long things take to load, how far
+ * visitors get, and where they linger. Events are queued and sent in batches
+ * to a pluggable sink. Nothing is stored on the visitor's device (no cookies,
+ * no storage); batches from one visit share a random id that dies with it.
+ */
+
+/**
+ * - "video-load": a ScrollyVideo's first frames finished loading, `duration`
+ *   ms after extraction started, at quality tier `tier`
+ * - "video-tier": it moved on to sharper frames from `tier`
+ * - "loading-complete": the loading overlay went away, on its own or skipped
+ * - "loading-abandoned": the visitor left (or hid the page) while the
+ *   overlay was still up
+ * - "scroll-depth": the visitor first scrolled `depth` (0.25, 0.5, 0.75 or 1)
+ *   of the way down the page
+ * - "card-dwell": a card was on screen for `duration` ms
+ * - "frame-views": how often the frames in each second of a video were
+ *   scrolled onto, since the last report
+ */
+export type AnalyticsEvent =
+    | { type: "video-load"; video: string; tier: string; duration: number }
+    | { type: "video-tier"; video: string; tier: string }
+    | { type: "loading-complete"; duration: number; skipped: boolean }
+    | { type: "loading-abandoned"; progress: number; duration: number }
+    | { type: "scroll-depth"; depth: number }
+    | { type: "card-dwell"; card: string; duration: number }
+    | { type: "frame-views"; video: string; seconds: number[] };
+
+/**
+ * An event as sent, stamped with when it happened (ms since the site was
+ * loaded) and on which page (its path, without query or hash).
+ */
+export type TrackedEvent = AnalyticsEvent & { time: number; page: string };
+
+export interface AnalyticsBatch {
+    /** Random per visit, so batches can be grouped without identifying anyone. */
+    view: string;
+
+    events: TrackedEvent[];
+}
+
+/**
+ * Where batches go. `send` may be called as the page unloads, so it must
+ * not wait on anything.
+ */
+export interface AnalyticsSink {
+    send: (batch: AnalyticsBatch) => void;
+}
+
+export interface Analytics {
+    track: (event: AnalyticsEvent) => void;
+
+    /** Sends whatever is queued. */
+    flush: () => void;
+
+    /**
+     * Registers a callback run when the visitor leaves or hides the page,
+     * before the final flush, to report anything still in progress. Returns
+     * a function that unregisters it.
+     */
+    onLeave: (listener: () => void) => () => void;
+
+    /** Runs the leave callbacks, then flushes. */
+    leave: () => void;
+
+    /** Flushes and stops the flush timer. */
+    dispose: () => void;
+}
+
+export interface AnalyticsOptions {
+    /** Send once this many events are queued. Defaults to 20. */
+    batchSize?: number;
+
+    /** Send queued events after at most this long (ms). Defaults to 10 seconds. */
+    flushInterval?: number;
+}
+
+export const AnalyticsContext = createContext<Analytics | null>(null);
+
+/**
+ * Scroll depths reported as "scroll-depth" events.
+ */
+export const SCROLL_DEPTH_MILESTONES = [0.25, 0.5, 0.75, 1];
+
+/**
+ * Shorter glimpses (ms) of a card aren't worth reporting.
+ */
+const MIN_DWELL = 500;
+
+function createViewId(): string {
+    return Math.random().toString(36).slice(2, 12);
+}
+
+/**
+ * Queues events and hands them to `sink` in batches: once `batchSize` are
+ * queued, `flushInterval` ms after the first one, or on `leave()`.
+ */
+export function createAnalytics(
+    sink: AnalyticsSink,
+    { batchSize = 20, flushInterval = 10_000 }: AnalyticsOptions = {}
+): Analytics {
+    const view = createViewId();
+    const listeners = new Set<() => void>();
+    let queue: TrackedEvent[] = [];
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    function flush() {
+        clearTimeout(timer);
+        timer = undefined;
+        if (!queue.length) return;
+
+        const events = queue;
+        queue = [];
+        try {
+            sink.send({ view, events });
+        } catch (error) {
+            console.warn("Analytics events couldn't be sent:", error);
+        }
+    }
+
+    return {
+        track(event) {
+            queue.push({ ...event, time: Math.round(performance.now()), page: location.pathname });
+            if (queue.length >= batchSize) flush();
+            else timer ??= setTimeout(flush, flushInterval);
+        },
+
+        flush,
+
+        onLeave(listener) {
+            listeners.add(listener);
+            return () => listeners.delete(listener);
+        },
+
+        leave() {
+            listeners.forEach((listener) => listener());
+            flush();
+        },
+
+        dispose() {
+            flush();
+        },
+    };
+}
+
+/**
+ * Logs batches to the console, for development.
+ */
+export function createConsoleSink(): AnalyticsSink {
+    return {
+        send(batch) {
+            console.info(`Analytics: ${batch.events.length} event(s)`, batch.events);
+        },
+    };
+}
+
+/**
+ * POSTs batches as JSON to `endpoint` with `navigator.sendBeacon`, which
+ * still delivers while the page unloads. Sent as text/plain so cross-origin
+ * endpoints need no preflight. Falls back to a keepalive fetch without
+ * credentials where beacons aren't available or are refused.
+ */
+export function createBeaconSink(endpoint: string): AnalyticsSink {
+    return {
+        send(batch) {
+            const body = JSON.stringify(batch);
+            if (navigator.sendBeacon?.(endpoint, new Blob([body], { type: "text/plain" }))) return;
+
+            fetch(endpoint, { method: "POST", body, keepalive: true, credentials: "omit" }).catch((error) => {
+                console.warn(`Analytics events couldn't be sent to ${endpoint}:`, error);
+            });
+        },
+    };
+}
+
+/**
+ * Keeps batches in memory instead of sending them, for tests.
+ */
+export function createMemorySink(): AnalyticsSink & { batches: AnalyticsBatch[]; events: () => TrackedEvent[] } {
+    const batches: AnalyticsBatch[] = [];
+    return {
+        batches,
+        send(batch) {
+            batches.push(batch);
+        },
+        events() {
+            return batches.flatMap((batch) => batch.events);
+        },
+    };
+}
+
+/**
+ * The enclosing AnalyticsProvider's tracker, or null when analytics are off.
+ */
+export function useAnalytics(): Analytics | null {
+    return useContext(AnalyticsContext);
+}
+
+/**
+ * Reports how long `card` is on screen as "card-dwell" events: one each time
+ * at least half of `ref`'s element leaves the viewport, or the page is hidden.
+ */
+export function useDwellTime(ref: RefObject<Element>, card: string) {
+    const analytics = useAnalytics();
+
+    useEffect(() => {
+        const element = ref.current;
+        if (!analytics || !element) return;
+
+        let visible = false;
+        let since: number | null = null;
+
+        const start = () => {
+            if (visible && document.visibilityState === "visible") since ??= performance.now();
+        };
+        const stop = () => {
+            if (since == null) return;
+            const duration = performance.now() - since;
+            since = null;
+            if (duration >= MIN_DWELL) analytics.track({ type: "card-dwell", card, duration: Math.round(duration) });
+        };
+
+        const observer = new IntersectionObserver(([entry]) => {
+            visible = entry.isIntersecting && entry.intersectionRatio >= 0.5;
+            if (visible) start();
+            else stop();
+        }, { threshold: 0.5 });
+        observer.observe(element);
+
+        // Hiding the page reports the time so far; coming back starts over
+        const removeLeave = analytics.onLeave(stop);
+        document.addEventListener("visibilitychange", start);
+
+        return () => {
+            stop();
+            observer.disconnect();
+            removeLeave();
+            document.removeEventListener("visibilitychange", start);
+        };
+    }, [analytics, ref, card]);
+}
+
+/**
+ * Wraps a ScrollyVideo's `onLoadProgress` and `onQualityChange` to report
+ * "video-load" and "video-tier" events for `video`. The callbacks passed in
+ * are still called; keep them stable, as the returned ones change with them.
+ */
+export function useVideoLoadAnalytics(
+    video: string,
+    onLoadProgress?: (progress: number) => void,
+    onQualityChange?: (selection: QualitySelection) => void
+) {
+    const analytics = useAnalytics();
+    const loadRef = useRef<{ start: number | null; tier: string | null; loaded: boolean }>({
+        start: null,
+        tier: null,
+        loaded: false,
+    });
+
+    const handleLoadProgress = useCallback((progress: number) => {
+        onLoadProgress?.(progress);
+
+        // Extraction (re)starts from 0
+        const load = loadRef.current;
+        if (progress === 0) {
+            load.start = performance.now();
+            load.loaded = false;
+        } else if (progress >= 100 && load.start != null && !load.loaded) {
+            load.loaded = true;
+            analytics?.track({
+                type: "video-load",
+                video,
+                tier: load.tier ?? "unknown",
+                duration: Math.round(performance.now() - load.start),
+            });
+        }
+    }, [analytics, video, onLoadProgress]);
+
+    const handleQualityChange = useCallback((selection: QualitySelection) => {
+        onQualityChange?.(selection);
+
+        const load = loadRef.current;
+        load.tier = selection.tier.name;
+        if (load.loaded) analytics?.track({ type: "video-tier", video, tier: selection.tier.name });
+    }, [analytics, video, onQualityChange]);
+
+    return { onLoadProgress: handleLoadProgress, onQualityChange: handleQualityChange };
+}
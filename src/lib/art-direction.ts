@@ -0,0 +1,94 @@
+import { useEffect, useState } from "react";
+import { CanvasFit, FocalPoint } from "@/lib/canvas-renderer";
+import { FrameManifest } from "@/lib/frame-manifest";
+import { VideoRendition } from "@/lib/quality";
+
+/**
+ * Framing for a ScrollyVideo that changes with the viewport (a tighter crop,
+ * or a separate portrait cut, on phones) and over the course of the video
+ * (following the subject as it moves).
+ */
+
+/**
+ * A focal point at a moment in the video, in seconds of video time.
+ */
+export interface FocalKeyframe extends FocalPoint {
+    time: number;
+}
+
+/**
+ * A fixed focal point, or keyframes the focal point moves between.
+ */
+export type FocalPointSetting = FocalPoint | FocalKeyframe[];
+
+/**
+ * Overrides used while `media` matches, e.g. "(orientation: portrait)".
+ * Anything left out falls back to the component's own props.
+ */
+export interface ArtDirection {
+    media: string;
+    fit?: CanvasFit;
+    focalPoint?: FocalPointSetting;
+
+    /** A different cut of the video, e.g. one framed for portrait. */
+    video?: string;
+
+    /** A build-time frame manifest for `video`. */
+    frames?: FrameManifest;
+
+    /** Encodes of `video` at other sizes. */
+    renditions?: VideoRendition[];
+}
+
+/**
+ * Returns the focal point at `time` seconds, easing linearly between the
+ * keyframes around it and holding the first and last ones beyond them.
+ */
+export function getFocalPoint(setting: FocalPointSetting, time: number): FocalPoint {
+    if (!Array.isArray(setting)) return setting;
+    if (!setting.length) return { x: 0.5, y: 0.5 };
+
+    const keyframes = [...setting].sort((a, b) => a.time - b.time);
+    const next = keyframes.findIndex((keyframe) => keyframe.time > time);
+    if (next === 0) return keyframes[0];
+    if (next === -1) return keyframes[keyframes.length - 1];
+
+    const from = keyframes[next - 1];
+    const to = keyframes[next];
+    const mix = (time - from.time) / (to.time - from.time);
+    return {
+        x: from.x + (to.x - from.x) * mix,
+        y: from.y + (to.y - from.y) * mix,
+    };
+}
+
+function findMatch(entries: ArtDirection[] | undefined): number {
+    if (!entries || typeof window === "undefined" || !window.matchMedia) return -1;
+    return entries.findIndex((entry) => window.matchMedia(entry.media).matches);
+}
+
+/**
+ * Returns the first entry whose media query matches, following the viewport
+ * as it changes, or undefined if none do.
+ */
+export function useArtDirection(entries?: ArtDirection[]): ArtDirection | undefined {
+    const [index, setIndex] = useState(() => findMatch(entries));
+
+    // Re-subscribe only when the queries themselves change
+    const queries = entries?.map((entry) => entry.media).join("\n") ?? "";
+
+    useEffect(() => {
+        if (!queries || !window.matchMedia) {
+            setIndex(-1);
+            return;
+        }
+
+        const lists = queries.split("\n").map((media) => window.matchMedia(media));
+        const update = () => setIndex(lists.findIndex((list) => list.matches));
+        update();
+        lists.forEach((list) => list.addEventListener("change", update));
+        return () => lists.forEach((list) => list.removeEventListener("change", update));
+    }, [queries]);
+
+    return index >= 0 ? entries?.[index] : undefined;
+}
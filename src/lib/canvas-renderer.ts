@@ -0,0 +1,150 @@
+/**
+ * A 2D context from either a regular <canvas> or an OffscreenCanvas, so the
+ * same drawing code runs on the main thread and inside the renderer worker.
+ */
+export type Canvas2DContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/**
+ * How ScrollyVideo renders positions that fall between two extracted frames:
+ * - "none": snap to the nearest frame
+ * - "crossfade": fade between the two adjacent frames on a 2D canvas
+ * - "webgl": motion-aware blending in a WebGL shader (falls back to "crossfade")
+ */
+export type BlendMode = "none" | "crossfade" | "webgl";
+
+/**
+ * How a frame is sized to the canvas, like CSS `object-fit`:
+ * - "cover": fill the canvas, cropping the frame
+ * - "contain": show the whole frame, leaving bars
+ * - "fill": stretch the frame to the canvas
+ */
+export type CanvasFit = "cover" | "contain" | "fill";
+
+/**
+ * A point on the frame, from { x: 0, y: 0 } (top left) to { x: 1, y: 1 }
+ * (bottom right). It lands on the same relative point of the canvas, like
+ * CSS `object-position` percentages, so it stays in view however the frame
+ * is cropped.
+ */
+export interface FocalPoint {
+    x: number;
+    y: number;
+}
+
+export interface FrameLayout {
+    fit: CanvasFit;
+    focus: FocalPoint;
+}
+
+/**
+ * Cover-fit, pinned to the top and centered horizontally.
+ */
+export const DEFAULT_FRAME_LAYOUT: FrameLayout = { fit: "cover", focus: { x: 0.5, y: 0 } };
+
+export interface DrawRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * Returns where to draw an image of the given size on the canvas, sized by
+ * `fit` and positioned by `focus`.
+ */
+export function getFrameRect(
+    imageWidth: number,
+    imageHeight: number,
+    canvasWidth: number,
+    canvasHeight: number,
+    { fit, focus }: FrameLayout = DEFAULT_FRAME_LAYOUT
+): DrawRect {
+    if (fit === "fill") return { x: 0, y: 0, width: canvasWidth, height: canvasHeight };
+
+    // Maintain aspect ratio; "cover" scales up to the larger side, "contain" down to the smaller
+    const scale = fit === "cover"
+        ? Math.max(canvasWidth / imageWidth, canvasHeight / imageHeight)
+        : Math.min(canvasWidth / imageWidth, canvasHeight / imageHeight);
+    const drawWidth = imageWidth * scale;
+    const drawHeight = imageHeight * scale;
+
+    // Line the focal point up with the same point on the canvas
+    const offsetX = (canvasWidth - drawWidth) * focus.x;
+    const offsetY = (canvasHeight - drawHeight) * focus.y;
+
+    return { x: offsetX, y: offsetY, width: drawWidth, height: drawHeight };
+}
+
+/**
+ * Draws a frame onto the context, laid out by `layout`. Clears the canvas
+ * first to avoid overlapping images.
+ */
+export function drawFrame(
+    ctx: Canvas2DContext,
+    bitmap: ImageBitmap,
+    canvasWidth: number,
+    canvasHeight: number,
+    layout?: FrameLayout
+) {
+    // Clear any previously-drawn frame
+    ctx.clearRect(0, 0, canvasWidth, canvasHeight);
+
+    const { x, y, width, height } = getFrameRect(bitmap.width, bitmap.height, canvasWidth, canvasHeight, layout);
+    ctx.drawImage(bitmap, x, y, width, height);
+}
+
+/**
+ * Draws `from`, then `to` on top of it at `mix` opacity (0-1), so scrolling
+ * between two frames fades smoothly instead of snapping.
+ */
+export function drawCrossfadeFrame(
+    ctx: Canvas2DContext,
+    from: ImageBitmap,
+    to: ImageBitmap,
+    mix: number,
+    canvasWidth: number,
+    canvasHeight: number,
+    layout?: FrameLayout
+) {
+    drawFrame(ctx, from, canvasWidth, canvasHeight, layout);
+    if (to === from || mix <= 0) return;
+
+    const { x, y, width, height } = getFrameRect(to.width, to.height, canvasWidth, canvasHeight, layout);
+    ctx.save();
+    ctx.globalAlpha = mix;
+    ctx.drawImage(to, x, y, width, height);
+    ctx.restore();
+}
+
+/**
+ * Returns the frame at `index`, or the closest loaded one if frames are still
+ * being loaded out of order. Ties go to the earlier frame.
+ */
+export function findNearestFrame(
+    frames: ReadonlyArray<ImageBitmap | undefined>,
+    index: number
+): ImageBitmap | undefined {
+    for (let distance = 0; distance < frames.length; distance++) {
+        const before = frames[index - distance];
+        if (before) return before;
+        const after = frames[index + distance];
+        if (after) return after;
+    }
+    return undefined;
+}
+
+/**
+ * Splits a fractional frame position (e.g. 12.4) into the two frames around
+ * it and how far between them we are.
+ */
+export function getBlendFrames(
+    frames: ReadonlyArray<ImageBitmap | undefined>,
+    position: number
+): { from: ImageBitmap; to: ImageBitmap; mix: number } | undefined {
+    const index = Math.floor(position);
+    const from = findNearestFrame(frames, index);
+    const to = findNearestFrame(frames, Math.min(index + 1, frames.length - 1));
+    if (!from || !to) return undefined;
+
+    return { from, to, mix: position - index };
+}
@@ -0,0 +1,98 @@
+/**
+ * How elements opt in to CustomCursor's states, via data attributes:
+ *
+ * - `data-cursor="grow"`: a named variant (see DEFAULT_CURSOR_VARIANTS, or
+ *   pass your own to CustomCursor); "hidden" hides it
+ * - `data-cursor-label="Scroll"`: text shown inside the cursor
+ * - `data-cursor-magnetic` (optionally `="0.5"`): pulls the cursor towards
+ *   the element's center, by 0 (not at all) to 1 (pinned to it)
+ *
+ * The nearest element with an attribute wins. Links and buttons grow without
+ * needing any.
+ */
+
+export interface CursorVariantStyle {
+    /** Diameter in px. */
+    size: number;
+
+    /** Classes for the cursor's dot, e.g. colors and borders. */
+    className: string;
+
+    /**
+     * Invert whatever is under the cursor (`mix-blend-mode: difference`),
+     * so it shows on any background. Pair with a white dot.
+     */
+    invert?: boolean;
+}
+
+export const DEFAULT_CURSOR_VARIANTS: Record<string, CursorVariantStyle> = {
+    // The ring keeps the dot visible on dark backgrounds, like the loading overlay
+    default: { size: 16, className: "bg-black/80 ring-2 ring-white/80" },
+    grow: { size: 48, className: "bg-black/20 ring-2 ring-white/80 backdrop-blur-sm" },
+    label: { size: 80, className: "bg-black/80 text-white ring-2 ring-white/80" },
+    invert: { size: 64, className: "bg-white", invert: true },
+    hidden: { size: 0, className: "" },
+};
+
+/**
+ * Elements that grow the cursor by default.
+ */
+const INTERACTIVE = "a[href], button, [role='button'], summary, label, select";
+
+/**
+ * How strongly magnetic elements pull when `data-cursor-magnetic` has no value.
+ */
+const DEFAULT_MAGNETIC_STRENGTH = 0.4;
+
+export interface CursorState {
+    /** A key into the cursor's variants. */
+    variant: string;
+
+    label?: string;
+
+    /** The element the cursor is pulled towards, and how strongly. */
+    magnet?: { element: Element; strength: number };
+}
+
+/**
+ * Works out the cursor's state over `target` from its (or its ancestors')
+ * data attributes.
+ */
+export function getCursorState(target: EventTarget | null): CursorState {
+    if (!(target instanceof Element)) return { variant: "default" };
+
+    const variantEl = target.closest("[data-cursor]");
+    const labelEl = target.closest("[data-cursor-label]");
+    const magnetEl = target.closest("[data-cursor-magnetic]");
+
+    const label = labelEl?.getAttribute("data-cursor-label") || undefined;
+    let variant = variantEl?.getAttribute("data-cursor") || undefined;
+    variant ??= label ? "label" : target.closest(INTERACTIVE) ? "grow" : "default";
+
+    let magnet: CursorState["magnet"];
+    if (magnetEl) {
+        const strength = parseFloat(magnetEl.getAttribute("data-cursor-magnetic") ?? "");
+        magnet = {
+            element: magnetEl,
+            strength: Number.isFinite(strength) ? Math.min(1, Math.max(0, strength)) : DEFAULT_MAGNETIC_STRENGTH,
+        };
+    }
+
+    return { variant, label, magnet };
+}
+
+/**
+ * Where the cursor should be drawn for a pointer at (x, y): pulled towards
+ * the magnet's center, if there is one.
+ */
+export function getCursorPosition(x: number, y: number, magnet?: CursorState["magnet"]): { x: number; y: number } {
+    if (!magnet) return { x, y };
+
+    const rect = magnet.element.getBoundingClientRect();
+    const centerX = rect.left + rect.width / 2;
+    const centerY = rect.top + rect.height / 2;
+    return {
+        x: x + (centerX - x) * magnet.strength,
+        y: y + (centerY - y) * magnet.strength,
+    };
+}
@@ -0,0 +1,95 @@
+import { createContext } from "react";
+
+/**
+ * Coordinates frame extraction between every ScrollyVideo on a page, so a
+ * long story with several clips doesn't decode them all at once. Instances
+ * queue for a slot and the one nearest the viewport is served first.
+ */
+export interface ExtractionScheduler {
+    /**
+     * Waits for a free extraction slot. `priority` is re-evaluated whenever a
+     * slot frees up (lower goes first). Resolves to a function that gives the
+     * slot back; rejects with an AbortError if `signal` aborts while queued.
+     */
+    acquire: (priority: () => number, signal?: AbortSignal) => Promise<() => void>;
+}
+
+export function createExtractionScheduler(concurrency = 1): ExtractionScheduler {
+    interface QueuedJob {
+        priority: () => number;
+        start: (release: () => void) => void;
+    }
+
+    const queue: QueuedJob[] = [];
+    let running = 0;
+
+    function next() {
+        while (running < concurrency && queue.length) {
+            // Priorities change as the page scrolls, so compare them now
+            let best = 0;
+            let bestPriority = Infinity;
+            queue.forEach((job, index) => {
+                const priority = job.priority();
+                if (priority < bestPriority) {
+                    best = index;
+                    bestPriority = priority;
+                }
+            });
+
+            const [job] = queue.splice(best, 1);
+            running++;
+
+            let released = false;
+            job.start(() => {
+                if (released) return;
+                released = true;
+                running--;
+                next();
+            });
+        }
+    }
+
+    return {
+        acquire(priority, signal) {
+            return new Promise((resolve, reject) => {
+                if (signal?.aborted) {
+                    reject(new DOMException("Frame extraction was aborted", "AbortError"));
+                    return;
+                }
+
+                const job: QueuedJob = { priority, start: resolve };
+                queue.push(job);
+
+                signal?.addEventListener("abort", () => {
+                    const index = queue.indexOf(job);
+                    if (index === -1) return;
+                    queue.splice(index, 1);
+                    reject(new DOMException("Frame extraction was aborted", "AbortError"));
+                }, { once: true });
+
+                next();
+            });
+        },
+    };
+}
+
+/**
+ * What ScrollyVideoProvider shares with the ScrollyVideos inside it.
+ */
+export interface ScrollyVideoProviderContextValue {
+    scheduler: ExtractionScheduler;
+
+    /**
+     * How far (in viewport heights) an instance's container may be from the
+     * viewport before its frames are released.
+     */
+    releaseDistance: number;
+
+    /**
+     * Records an instance's load progress (0-100) for the page-wide total, or
+     * stops counting it (null) once its frames are released.
+     */
+    reportProgress: (id: string, progress: number | null) => void;
+}
+
+export const ScrollyVideoProviderContext = createContext<ScrollyVideoProviderContextValue | null>(null);
@@ -0,0 +1,224 @@
+import { coarseToFineOrder } from "@/lib/frame-sampling";
+import { FrameExtractionOptions } from "@/lib/video-helpers";
+
+/**
+ * Persists extracted frames in IndexedDB as encoded image blobs, so repeat
+ * visits can skip extraction entirely. Entries are keyed by the video URL plus
+ * every option that affects the output, versioned by the file's ETag, and
+ * evicted least-recently-used first once the cache grows past its budget.
+ */
+
+const DB_NAME = "scrolly-frame-cache";
+const DB_VERSION = 1;
+const STORE = "entries";
+
+/**
+ * Default size budget for all cached frames combined (100 MB).
+ */
+export const DEFAULT_CACHE_BUDGET = 100 * 1024 * 1024;
+
+export interface FrameCacheOptions {
+    /**
+     * The maximum number of bytes all cached entries may take up together.
+     * Defaults to DEFAULT_CACHE_BUDGET.
+     */
+    maxBytes?: number;
+
+    /**
+     * WebP encoding quality (0-1). Defaults to 0.85.
+     */
+    quality?: number;
+}
+
+/**
+ * Everything that influences which frames get extracted.
+ */
+export interface FrameCacheInputs {
+    video: string;
+    maxWidth: number;
+    maxHeight: number;
+    maxFrames: number;
+    baseFps: number;
+}
+
+interface CacheEntry {
+    key: string;
+    /** ETag (or Last-Modified) of the source file when the frames were extracted. */
+    version: string | null;
+    /**
+     * How many frames were sampled from the video. Blobs map onto the sampled
+     * times by index, so an entry holding any other number is unusable.
+     */
+    count: number;
+    frames: Blob[];
+    size: number;
+    lastAccessed: number;
+}
+
+export function isFrameCacheSupported(): boolean {
+    return typeof indexedDB !== "undefined" && typeof OffscreenCanvas !== "undefined";
+}
+
+export function getFrameCacheKey({ video, maxWidth, maxHeight, maxFrames, baseFps }: FrameCacheInputs): string {
+    const url = new URL(video, document.baseURI).href;
+    return `${url}|${maxWidth}x${maxHeight}|${maxFrames}|${baseFps}`;
+}
+
+/**
+ * Returns an identifier for the current version of the file at `url`, taken
+ * from its ETag (or Last-Modified) header. Resolves to null if the server
+ * doesn't send either or can't be reached, in which case cached frames are
+ * trusted as-is.
+ */
+export async function fetchVideoVersion(url: string, signal?: AbortSignal): Promise<string | null> {
+    try {
+        const resp = await fetch(url, { method: "HEAD", signal });
+        if (!resp.ok) return null;
+        return resp.headers.get("ETag") ?? resp.headers.get("Last-Modified");
+    } catch (err) {
+        if (signal?.aborted) throw err;
+        return null;
+    }
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: "key" });
+        store.createIndex("lastAccessed", "lastAccessed");
+    };
+    return promisify(request);
+}
+
+async function withStore<T>(
+    mode: IDBTransactionMode,
+    callback: (store: IDBObjectStore) => Promise<T>
+): Promise<T> {
+    const db = await openDatabase();
+    try {
+        const transaction = db.transaction(STORE, mode);
+        const done = new Promise<void>((resolve, reject) => {
+            transaction.oncomplete = () => resolve();
+            transaction.onerror = () => reject(transaction.error);
+            transaction.onabort = () => reject(transaction.error);
+        });
+        const result = await callback(transaction.objectStore(STORE));
+        await done;
+        return result;
+    } finally {
+        db.close();
+    }
+}
+
+/**
+ * Loads cached frames for `key`. Resolves to null on a cache miss, or if the
+ * entry was extracted from a different version of the file or is missing
+ * frames (the unusable entry is deleted).
+ */
+export async function readCachedFrames(
+    key: string,
+    version: string | null,
+    { signal, onProgress, onFrame }: Pick<FrameExtractionOptions, "signal" | "onProgress" | "onFrame"> = {}
+): Promise<ImageBitmap[] | null> {
+    const entry = await withStore("readwrite", async (store) => {
+        const entry = await promisify<CacheEntry | undefined>(store.get(key));
+        if (!entry) return null;
+
+        const stale = version != null && entry.version !== version;
+        if (stale || entry.frames.length !== entry.count) {
+            await promisify(store.delete(key));
+            return null;
+        }
+
+        entry.lastAccessed = Date.now();
+        await promisify(store.put(entry));
+        return entry;
+    });
+    if (!entry) return null;
+
+    const frames: ImageBitmap[] = new Array(entry.frames.length);
+    let decoded = 0;
+    try {
+        for (const index of coarseToFineOrder(entry.frames.length)) {
+            if (signal?.aborted) {
+                throw new DOMException("Frame extraction was aborted", "AbortError");
+            }
+            const bitmap = await createImageBitmap(entry.frames[index]);
+            frames[index] = bitmap;
+            onFrame?.(index, bitmap, entry.frames.length);
+
+            const progress = Math.floor((++decoded / entry.frames.length) * 100);
+            if (progress < 100) onProgress?.(progress);
+        }
+    } catch (error) {
+        frames.forEach((bitmap) => bitmap.close());
+        throw error;
+    }
+    return frames;
+}
+
+/**
+ * Encodes the frames as WebP and stores them under `key`, then evicts the
+ * least recently used entries until the cache fits in its budget. Entries
+ * that are bigger than the whole budget are not stored at all, and neither
+ * are incomplete sets: a frame that failed to extract would shift every later
+ * one onto the wrong time.
+ */
+export async function writeCachedFrames(
+    key: string,
+    version: string | null,
+    frames: ImageBitmap[],
+    { maxBytes = DEFAULT_CACHE_BUDGET, quality = 0.85 }: FrameCacheOptions = {}
+) {
+    const count = frames.length;
+    if (!count || frames.filter(Boolean).length !== count) return;
+
+    // 1) Encode every frame
+    const canvas = new OffscreenCanvas(frames[0].width, frames[0].height);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Could not create a 2D context for frame encoding");
+
+    const blobs: Blob[] = [];
+    let size = 0;
+    for (const bitmap of frames) {
+        canvas.width = bitmap.width;
+        canvas.height = bitmap.height;
+        ctx.drawImage(bitmap, 0, 0);
+
+        const blob = await canvas.convertToBlob({ type: "image/webp", quality });
+        blobs.push(blob);
+        size += blob.size;
+        if (size > maxBytes) return;
+    }
+
+    // 2) Store the entry and evict old ones to stay within budget
+    await withStore("readwrite", async (store) => {
+        const entry: CacheEntry = { key, version, count, frames: blobs, size, lastAccessed: Date.now() };
+        await promisify(store.put(entry));
+
+        const entries = await promisify<CacheEntry[]>(store.index("lastAccessed").getAll());
+        let total = entries.reduce((sum, cached) => sum + cached.size, 0);
+        for (const cached of entries) {
+            if (total <= maxBytes) break;
+            if (cached.key === key) continue;
+
+            await promisify(store.delete(cached.key));
+            total -= cached.size;
+        }
+    });
+}
+
+/**
+ * Removes every cached frame sequence.
+ */
+export async function clearFrameCache() {
+    if (typeof indexedDB === "undefined") return;
+    await withStore("readwrite", (store) => promisify(store.clear()));
+}
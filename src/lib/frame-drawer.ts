@@ -0,0 +1,84 @@
+import {
+    BlendMode,
+    Canvas2DContext,
+    drawCrossfadeFrame,
+    drawFrame,
+    findNearestFrame,
+    FrameLayout,
+    getBlendFrames,
+} from "@/lib/canvas-renderer";
+import { createTextMaskRenderer, drawVignette, EffectParams, getCanvasFilter } from "@/lib/frame-effects";
+import { createWebGLFrameRenderer } from "@/lib/webgl-renderer";
+
+/**
+ * Draws frames at a fractional position onto a canvas, using whichever
+ * context the canvas got. Shared by ScrollyVideo and the renderer worker.
+ */
+export interface FrameDrawer {
+    /** Call after the canvas' backing size changes, which resets its context. */
+    resize: (dpr: number) => void;
+    draw: (
+        frames: ReadonlyArray<ImageBitmap | undefined>,
+        position: number,
+        blend: BlendMode,
+        layout?: FrameLayout,
+        effects?: EffectParams
+    ) => void;
+    dispose: () => void;
+}
+
+function create2DFrameDrawer(ctx: Canvas2DContext): FrameDrawer {
+    let dpr = 1;
+    const masks = createTextMaskRenderer();
+
+    return {
+        resize(next) {
+            // Scale the drawing context so we can draw at "CSS size" coordinates
+            dpr = next;
+            ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+        },
+
+        draw(frames, position, blend, layout, effects) {
+            const width = ctx.canvas.width / dpr;
+            const height = ctx.canvas.height / dpr;
+
+            ctx.filter = effects ? getCanvasFilter(effects, dpr) : "none";
+            if (blend === "none") {
+                const bitmap = findNearestFrame(frames, Math.round(position));
+                if (bitmap) drawFrame(ctx, bitmap, width, height, layout);
+            } else {
+                // Without WebGL, "webgl" degrades to a plain cross-fade
+                const blended = getBlendFrames(frames, position);
+                if (blended) drawCrossfadeFrame(ctx, blended.from, blended.to, blended.mix, width, height, layout);
+            }
+            ctx.filter = "none";
+            if (!effects) return;
+
+            drawVignette(ctx, width, height, effects.vignette);
+            const mask = effects.mask && masks.render(effects.mask, ctx.canvas.width, ctx.canvas.height);
+            if (mask) {
+                ctx.save();
+                ctx.globalCompositeOperation = "destination-in";
+                ctx.drawImage(mask, 0, 0, width, height);
+                ctx.restore();
+            }
+        },
+
+        dispose() {},
+    };
+}
+
+/**
+ * Picks a context for the canvas: WebGL when `blend` is "webgl" and it's
+ * available, otherwise 2D. A canvas keeps its first context for good, so
+ * create one drawer per canvas and pass later blend modes to `draw`.
+ */
+export function createFrameDrawer(canvas: HTMLCanvasElement | OffscreenCanvas, blend: BlendMode): FrameDrawer | null {
+    if (blend === "webgl") {
+        const webgl = createWebGLFrameRenderer(canvas);
+        if (webgl) return webgl;
+    }
+
+    const ctx = (canvas as HTMLCanvasElement).getContext("2d");
+    return ctx ? create2DFrameDrawer(ctx) : null;
+}
@@ -0,0 +1,239 @@
+import { Canvas2DContext } from "@/lib/canvas-renderer";
+
+/**
+ * Post-processing applied to ScrollyVideo's frames as they're drawn. Every
+ * parameter can be fixed or keyed to scroll progress, so an effect can ease
+ * in as the visitor scrolls, e.g. fading to black and white towards the end:
+ *
+ *     effects={[{ type: "grayscale", amount: [{ progress: 0.6, value: 0 }, { progress: 0.8, value: 1 }] }]}
+ *
+ * The 2D canvas applies them with CSS filters and compositing; the WebGL
+ * renderer does the same in its shader.
+ */
+
+/**
+ * An effect parameter's value at a point of scroll progress (0-1).
+ */
+export interface EffectKeyframe {
+    progress: number;
+    value: number;
+}
+
+/**
+ * A fixed value, or keyframes eased between linearly as progress moves. Before
+ * the first keyframe and after the last, their values hold.
+ */
+export type EffectValue = number | EffectKeyframe[];
+
+/**
+ * - "blur": `radius` in CSS pixels
+ * - "grayscale", "sepia": `amount` from 0 (none) to 1 (full)
+ * - "vignette": how dark (0-1) the corners get
+ * - "grade": color grading; `brightness`, `contrast` and `saturation` are
+ *   multipliers (1 leaves them as they are), `hue` rotates in degrees
+ * - "text-mask": shows the video only through `text`, set in `font` (weight
+ *   and family, e.g. "900 sans-serif"; the size is fitted to the canvas).
+ *   `amount` fades the mask in, from 0 (no mask) to 1 (only the text).
+ */
+export type FrameEffect =
+    | { type: "blur"; radius: EffectValue }
+    | { type: "grayscale"; amount: EffectValue }
+    | { type: "sepia"; amount: EffectValue }
+    | { type: "vignette"; amount: EffectValue }
+    | { type: "grade"; brightness?: EffectValue; contrast?: EffectValue; saturation?: EffectValue; hue?: EffectValue }
+    | { type: "text-mask"; text: string; font?: string; amount?: EffectValue };
+
+export interface TextMask {
+    text: string;
+    font: string;
+    amount: number;
+}
+
+/**
+ * Every effect resolved to plain numbers at one point of progress, so they
+ * can be posted to the renderer worker. Applied in this order.
+ */
+export interface EffectParams {
+    blur: number;
+    brightness: number;
+    contrast: number;
+    saturation: number;
+    hue: number;
+    grayscale: number;
+    sepia: number;
+    vignette: number;
+    mask?: TextMask;
+}
+
+export const NO_EFFECTS: EffectParams = {
+    blur: 0,
+    brightness: 1,
+    contrast: 1,
+    saturation: 1,
+    hue: 0,
+    grayscale: 0,
+    sepia: 0,
+    vignette: 0,
+};
+
+const DEFAULT_MASK_FONT = "900 sans-serif";
+
+/**
+ * How much of the canvas' width the mask text spans.
+ */
+const MASK_TEXT_WIDTH = 0.9;
+
+/**
+ * Returns an effect parameter's value at `progress` (0-1).
+ */
+export function getEffectValue(value: EffectValue, progress: number): number {
+    if (!Array.isArray(value)) return value;
+    if (!value.length) return 0;
+
+    const keyframes = [...value].sort((a, b) => a.progress - b.progress);
+    const next = keyframes.findIndex((keyframe) => keyframe.progress > progress);
+    if (next === 0) return keyframes[0].value;
+    if (next === -1) return keyframes[keyframes.length - 1].value;
+
+    const from = keyframes[next - 1];
+    const to = keyframes[next];
+    return from.value + (to.value - from.value) * (progress - from.progress) / (to.progress - from.progress);
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Resolves `effects` at `progress`. Repeated effects stack: blurs and hue
+ * rotations add up, multipliers multiply, and amounts take the strongest.
+ */
+export function resolveEffects(effects: FrameEffect[], progress: number): EffectParams {
+    const params = { ...NO_EFFECTS };
+    const value = (setting: EffectValue | undefined, fallback: number) =>
+        setting === undefined ? fallback : getEffectValue(setting, progress);
+
+    for (const effect of effects) {
+        switch (effect.type) {
+            case "blur":
+                params.blur += Math.max(0, value(effect.radius, 0));
+                break;
+            case "grayscale":
+            case "sepia":
+            case "vignette":
+                params[effect.type] = Math.max(params[effect.type], clamp01(value(effect.amount, 0)));
+                break;
+            case "grade":
+                params.brightness *= Math.max(0, value(effect.brightness, 1));
+                params.contrast *= Math.max(0, value(effect.contrast, 1));
+                params.saturation *= Math.max(0, value(effect.saturation, 1));
+                params.hue += value(effect.hue, 0);
+                break;
+            case "text-mask": {
+                const amount = clamp01(value(effect.amount, 1));
+                if (amount > 0) params.mask = { text: effect.text, font: effect.font ?? DEFAULT_MASK_FONT, amount };
+                break;
+            }
+        }
+    }
+    return params;
+}
+
+/**
+ * Whether `params` change the frame at all.
+ */
+export function hasEffects(params: EffectParams): boolean {
+    return params.mask != null
+        || (Object.keys(NO_EFFECTS) as (keyof typeof NO_EFFECTS)[]).some((key) => params[key] !== NO_EFFECTS[key]);
+}
+
+/**
+ * The CSS filter equivalent of `params`' blur and color effects, for a 2D
+ * context's `filter`, which measures blur in canvas pixels: `dpr` of them to
+ * a CSS pixel. The vignette and mask are drawn separately.
+ */
+export function getCanvasFilter(params: EffectParams, dpr = 1): string {
+    const filters: string[] = [];
+    if (params.blur > 0) filters.push(`blur(${params.blur * dpr}px)`);
+    if (params.brightness !== 1) filters.push(`brightness(${params.brightness})`);
+    if (params.contrast !== 1) filters.push(`contrast(${params.contrast})`);
+    if (params.saturation !== 1) filters.push(`saturate(${params.saturation})`);
+    if (params.hue !== 0) filters.push(`hue-rotate(${params.hue}deg)`);
+    if (params.grayscale > 0) filters.push(`grayscale(${params.grayscale})`);
+    if (params.sepia > 0) filters.push(`sepia(${params.sepia})`);
+    return filters.length ? filters.join(" ") : "none";
+}
+
+/**
+ * Darkens the canvas' edges, elliptically to match its shape. Matches the
+ * WebGL renderer's vignette.
+ */
+export function drawVignette(ctx: Canvas2DContext, width: number, height: number, amount: number) {
+    if (amount <= 0) return;
+
+    ctx.save();
+    ctx.translate(width / 2, height / 2);
+    ctx.scale(width / 2, height / 2);
+    const gradient = ctx.createRadialGradient(0, 0, 0.5, 0, 0, Math.SQRT2);
+    gradient.addColorStop(0, "rgba(0, 0, 0, 0)");
+    gradient.addColorStop(1, `rgba(0, 0, 0, ${amount})`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(-1, -1, 2, 2);
+    ctx.restore();
+}
+
+/**
+ * Draws a text mask's alpha onto `ctx`: opaque inside the text and
+ * `1 - amount` everywhere else, with the text fitted to the canvas' width.
+ */
+function drawTextMask(ctx: Canvas2DContext, width: number, height: number, { text, font, amount }: TextMask) {
+    ctx.clearRect(0, 0, width, height);
+    ctx.fillStyle = `rgba(0, 0, 0, ${1 - amount})`;
+    ctx.fillRect(0, 0, width, height);
+
+    // Measure at a known size, then scale to fit
+    ctx.font = `100px ${font}`;
+    const measured = ctx.measureText(text).width || 1;
+    const size = Math.min((100 * width * MASK_TEXT_WIDTH) / measured, height * MASK_TEXT_WIDTH);
+
+    ctx.font = `${size}px ${font}`;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillStyle = "black";
+    ctx.fillText(text, width / 2, height / 2);
+}
+
+export interface TextMaskRenderer {
+    /**
+     * Returns a canvas holding the mask at `width` x `height` pixels, only
+     * redrawing it when something changed. Null without canvas support.
+     */
+    render: (mask: TextMask, width: number, height: number) => HTMLCanvasElement | OffscreenCanvas | null;
+}
+
+/**
+ * Creates a renderer for text masks, on the main thread or in a worker.
+ */
+export function createTextMaskRenderer(): TextMaskRenderer {
+    let canvas: HTMLCanvasElement | OffscreenCanvas | null = null;
+    let drawn = "";
+
+    return {
+        render(mask, width, height) {
+            const key = `${mask.text}|${mask.font}|${mask.amount}|${width}x${height}`;
+            if (canvas && drawn === key) return canvas;
+
+            if (!canvas) {
+                if (typeof OffscreenCanvas !== "undefined") canvas = new OffscreenCanvas(width, height);
+                else if (typeof document !== "undefined") canvas = document.createElement("canvas");
+                else return null;
+            }
+            canvas.width = width;
+            canvas.height = height;
+
+            const ctx = canvas.getContext("2d") as Canvas2DContext | null;
+            if (!ctx) return null;
+            drawTextMask(ctx, width, height, mask);
+            drawn = key;
+            return canvas;
+        },
+    };
+}
@@ -0,0 +1,34 @@
+/**
+ * Describes an image sequence pre-extracted from a video at build time by the
+ * frame-sequence Vite plugin. Import a video with the `?frames` suffix to get
+ * one:
+ *
+ *     import intro from "@/assets/intro.webm?frames";
+ *
+ * Shared between the plugin (Node) and ScrollyVideo (browser), so this file
+ * must stay free of DOM APIs.
+ */
+export interface FrameManifest {
+    /** Number of frames in the sequence. */
+    frameCount: number;
+
+    /** Width (in pixels) of every frame image. */
+    width: number;
+
+    /** Height (in pixels) of every frame image. */
+    height: number;
+
+    /** Duration of the source video in seconds. */
+    duration: number;
+
+    /** The frame images, in playback order. */
+    frames: FrameManifestEntry[];
+}
+
+export interface FrameManifestEntry {
+    /** URL of the frame image. */
+    src: string;
+
+    /** Timestamp (in seconds) of the frame within the source video. */
+    time: number;
+}
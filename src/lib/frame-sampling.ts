@@ -0,0 +1,65 @@
+/**
+ * Frame sampling math shared by in-browser extraction and the build-time
+ * frame-sequence plugin. Must stay free of DOM APIs.
+ */
+
+/**
+ * Scales (width, height) down to fit within (maxWidth, maxHeight) while
+ * keeping the aspect ratio. Never scales up.
+ */
+export function fitDimensions(width: number, height: number, maxWidth: number, maxHeight: number) {
+    const aspect = width / height;
+
+    let targetWidth = width;
+    let targetHeight = height;
+
+    if (targetWidth > maxWidth) {
+        targetWidth = maxWidth;
+        targetHeight = Math.floor(targetWidth / aspect);
+    }
+    if (targetHeight > maxHeight) {
+        targetHeight = maxHeight;
+        targetWidth = Math.floor(targetHeight * aspect);
+    }
+
+    return { width: targetWidth, height: targetHeight };
+}
+
+/**
+ * Returns the timestamps (in seconds) of the frames to extract, sampled
+ * uniformly so that exactly min(totalFrames, `maxFrames`) are picked from a
+ * video of `duration` seconds running at `baseFps`.
+ */
+export function sampleFrameTimes(duration: number, baseFps: number, maxFrames: number): number[] {
+    const totalFrames = Math.floor(duration * baseFps);
+    const count = Math.max(0, Math.min(totalFrames, Math.floor(maxFrames)));
+
+    // Step by a fractional number of source frames, so the count isn't
+    // rounded to a whole skip (which could nearly halve or double it)
+    const times: number[] = [];
+    for (let i = 0; i < count; i++) {
+        const frame = Math.floor((i * totalFrames) / count);
+        times.push((frame / totalFrames) * duration);
+    }
+    return times;
+}
+
+/**
+ * Orders frame indices coarse-to-fine: every `initialStride`-th frame first,
+ * then the ones halfway between those, and so on until every index is listed.
+ * Loading frames in this order makes the whole timeline scrubbable early,
+ * just at a lower frame rate.
+ */
+export function coarseToFineOrder(count: number, initialStride = 8): number[] {
+    const order: number[] = [];
+    const seen = new Set<number>();
+
+    for (let stride = initialStride; stride >= 1; stride = Math.floor(stride / 2)) {
+        for (let index = 0; index < count; index += stride) {
+            if (seen.has(index)) continue;
+            seen.add(index);
+            order.push(index);
+        }
+    }
+    return order;
+}
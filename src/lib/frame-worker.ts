@@ -0,0 +1,194 @@
+import { BlendMode, FrameLayout } from "@/lib/canvas-renderer";
+import { EffectParams } from "@/lib/frame-effects";
+import { ScrollyVideoError, ScrollyVideoErrorKind } from "@/lib/video-errors";
+import { FrameExtractionOptions } from "@/lib/video-helpers";
+
+/**
+ * The serializable part of FrameExtractionOptions; signals and callbacks
+ * can't cross the worker boundary.
+ */
+export type WorkerExtractionOptions = Pick<
+    FrameExtractionOptions,
+    "maxWidth" | "maxHeight" | "maxFrames" | "baseFps" | "timeout" | "retries"
+>;
+
+/** Messages sent to the frame extractor worker. */
+export type ExtractorRequest =
+    | { type: "extract"; id: number; url: string; options: WorkerExtractionOptions }
+    | { type: "scale"; id: number; bitmap: ImageBitmap; width: number; height: number }
+    | { type: "abort"; id: number };
+
+/** Messages posted back by the frame extractor worker. */
+export type ExtractorResponse =
+    | { type: "progress"; id: number; progress: number }
+    | { type: "frame"; id: number; index: number; bitmap: ImageBitmap; total: number }
+    | { type: "done"; id: number; total: number }
+    | { type: "scaled"; id: number; bitmap: ImageBitmap }
+    | { type: "error"; id: number; message: string; aborted: boolean; kind?: ScrollyVideoErrorKind };
+
+/** Messages sent to the frame renderer worker. */
+export type RendererRequest =
+    | { type: "init"; canvas: OffscreenCanvas; blend: BlendMode }
+    | { type: "resize"; width: number; height: number; dpr: number }
+    | { type: "reset" }
+    | { type: "frame"; index: number; bitmap: ImageBitmap }
+    | { type: "draw"; position: number; blend: BlendMode; layout?: FrameLayout; effects?: EffectParams };
+
+export interface FrameExtractor {
+    /**
+     * Fetches, demuxes and decodes the video inside the worker, transferring
+     * each bitmap back as soon as it's ready. `url` must be absolute.
+     */
+    extract: (url: string, options: FrameExtractionOptions) => Promise<ImageBitmap[]>;
+
+    /**
+     * Downscales a bitmap inside the worker. The input bitmap is transferred
+     * (and closed) by the worker.
+     */
+    scale: (bitmap: ImageBitmap, width: number, height: number) => Promise<ImageBitmap>;
+
+    terminate: () => void;
+}
+
+export interface FrameRenderer {
+    canvas: HTMLCanvasElement;
+    /** Drops (and closes) every frame the worker holds. */
+    reset: () => void;
+    /** Hands a frame over to the worker; the bitmap is detached afterwards. */
+    setFrame: (index: number, bitmap: ImageBitmap) => void;
+    resize: (width: number, height: number, dpr: number) => void;
+    /** Draws the (possibly fractional) frame position. */
+    draw: (position: number, blend: BlendMode, layout?: FrameLayout, effects?: EffectParams) => void;
+    terminate: () => void;
+}
+
+export function isWorkerSupported(): boolean {
+    return typeof Worker !== "undefined" && typeof OffscreenCanvas !== "undefined";
+}
+
+export function isOffscreenCanvasSupported(): boolean {
+    return isWorkerSupported()
+        && typeof HTMLCanvasElement.prototype.transferControlToOffscreen === "function";
+}
+
+interface PendingRequest {
+    resolve: (value: ImageBitmap[] | ImageBitmap) => void;
+    reject: (reason: unknown) => void;
+    onProgress?: (progress: number) => void;
+    onFrame?: (index: number, bitmap: ImageBitmap, total: number) => void;
+    /** Frames received so far for an "extract" request. */
+    frames?: ImageBitmap[];
+}
+
+/**
+ * Spins up a dedicated worker that does extraction, downscaling and bitmap
+ * creation off the main thread.
+ */
+export function createFrameExtractor(): FrameExtractor {
+    const worker = new Worker(
+        new URL("../workers/frame-extractor.worker.ts", import.meta.url),
+        { type: "module" }
+    );
+
+    let nextId = 0;
+    const pending = new Map<number, PendingRequest>();
+
+    worker.onmessage = (event: MessageEvent<ExtractorResponse>) => {
+        const message = event.data;
+        const request = pending.get(message.id);
+        if (!request) {
+            // Nobody is waiting any more; don't leak the bitmaps
+            if (message.type === "frame" || message.type === "scaled") message.bitmap.close();
+            return;
+        }
+
+        switch (message.type) {
+            case "progress":
+                request.onProgress?.(message.progress);
+                break;
+            case "frame":
+                request.frames ??= new Array(message.total);
+                request.frames[message.index] = message.bitmap;
+                request.onFrame?.(message.index, message.bitmap, message.total);
+                break;
+            case "done":
+                pending.delete(message.id);
+                request.resolve(request.frames ?? []);
+                break;
+            case "scaled":
+                pending.delete(message.id);
+                request.resolve(message.bitmap);
+                break;
+            case "error":
+                pending.delete(message.id);
+                request.frames?.forEach((bitmap) => bitmap.close());
+                request.reject(message.aborted
+                    ? new DOMException(message.message, "AbortError")
+                    : message.kind
+                        ? new ScrollyVideoError(message.kind, message.message)
+                        : new Error(message.message));
+                break;
+        }
+    };
+
+    function post(request: ExtractorRequest, transfer: Transferable[] = []) {
+        worker.postMessage(request, transfer);
+    }
+
+    return {
+        extract(url, { maxWidth, maxHeight, maxFrames, baseFps, timeout, retries, signal, onProgress, onFrame }) {
+            const id = nextId++;
+            return new Promise<ImageBitmap[]>((resolve, reject) => {
+                pending.set(id, { resolve: resolve as PendingRequest["resolve"], reject, onProgress, onFrame });
+                signal?.addEventListener("abort", () => post({ type: "abort", id }), { once: true });
+                post({ type: "extract", id, url, options: { maxWidth, maxHeight, maxFrames, baseFps, timeout, retries } });
+            });
+        },
+
+        scale(bitmap, width, height) {
+            const id = nextId++;
+            return new Promise<ImageBitmap>((resolve, reject) => {
+                pending.set(id, { resolve: resolve as PendingRequest["resolve"], reject });
+                post({ type: "scale", id, bitmap, width, height }, [bitmap]);
+            });
+        },
+
+        terminate() {
+            worker.terminate();
+            pending.forEach((request) => {
+                request.frames?.forEach((bitmap) => bitmap.close());
+                request.reject(new DOMException("Frame worker was terminated", "AbortError"));
+            });
+            pending.clear();
+        },
+    };
+}
+
+/**
+ * Transfers control of the canvas to a renderer worker, so drawing frames in
+ * response to scroll never blocks the main thread. A canvas can only be
+ * transferred once, so keep the returned renderer for the canvas' lifetime.
+ * `blend` picks the worker's context (WebGL or 2D) and can't change later.
+ */
+export function createFrameRenderer(canvas: HTMLCanvasElement, blend: BlendMode): FrameRenderer {
+    const worker = new Worker(
+        new URL("../workers/frame-renderer.worker.ts", import.meta.url),
+        { type: "module" }
+    );
+
+    function post(request: RendererRequest, transfer: Transferable[] = []) {
+        worker.postMessage(request, transfer);
+    }
+
+    const offscreen = canvas.transferControlToOffscreen();
+    post({ type: "init", canvas: offscreen, blend }, [offscreen]);
+
+    return {
+        canvas,
+        reset: () => post({ type: "reset" }),
+        setFrame: (index, bitmap) => post({ type: "frame", index, bitmap }, [bitmap]),
+        resize: (width, height, dpr) => post({ type: "resize", width, height, dpr }),
+        draw: (position, blend, layout, effects) => post({ type: "draw", position, blend, layout, effects }),
+        terminate: () => worker.terminate(),
+    };
+}
@@ -0,0 +1,62 @@
+import { createContext, useCallback, useContext, useEffect, useId } from "react";
+
+/**
+ * Shared between LoadingOverlay and whatever it waits for. Each source (the
+ * frames of a page's videos, web fonts, card images) reports its own progress
+ * and the overlay shows their weighted average.
+ */
+export interface LoadingProgressContextValue {
+    /** Records a source's progress (0-100), adding it if it's new. */
+    report: (id: string, progress: number, weight: number) => void;
+
+    /** Stops counting a source, e.g. once it unmounts. */
+    remove: (id: string) => void;
+}
+
+export const LoadingProgressContext = createContext<LoadingProgressContextValue | null>(null);
+
+/**
+ * Tracks weighted progress per source and calls `onChange` with the total
+ * (0-100) whenever it changes. With no sources (or only weightless ones)
+ * there's nothing to wait for, so the total is 100.
+ */
+export function createLoadingTracker(onChange: (progress: number) => void): LoadingProgressContextValue {
+    const sources = new Map<string, { progress: number; weight: number }>();
+
+    function update() {
+        let total = 0;
+        let weights = 0;
+        sources.forEach(({ progress, weight }) => {
+            total += progress * weight;
+            weights += weight;
+        });
+        onChange(weights ? total / weights : 100);
+    }
+
+    return {
+        report(id, progress, weight) {
+            sources.set(id, { progress: Math.min(100, Math.max(0, progress)), weight });
+            update();
+        },
+        remove(id) {
+            if (sources.delete(id)) update();
+        },
+    };
+}
+
+/**
+ * Registers a progress source with the enclosing LoadingOverlay (if any) and
+ * returns a stable function to report its progress (0-100) with. The source
+ * counts as 0% from mount until it reports, and is dropped on unmount.
+ */
+export function useLoadingProgress(weight = 1): (progress: number) => void {
+    const tracker = useContext(LoadingProgressContext);
+    const id = useId();
+
+    useEffect(() => {
+        tracker?.report(id, 0, weight);
+        return () => tracker?.remove(id);
+    }, [tracker, id, weight]);
+
+    return useCallback((progress: number) => tracker?.report(id, progress, weight), [tracker, id, weight]);
+}
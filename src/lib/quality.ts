@@ -0,0 +1,178 @@
+/**
+ * Picks how many frames, at what size, a ScrollyVideo should extract on the
+ * current device. Every frame is held as an uncompressed ImageBitmap, so a
+ * 1080p, 60-frame video needs ~500 MB; phones get a smaller tier instead.
+ */
+
+/**
+ * One step on the quality ladder. Frames are scaled to fit within
+ * maxWidth x maxHeight.
+ */
+export interface QualityTier {
+    name: string;
+    maxWidth: number;
+    maxHeight: number;
+    maxFrames: number;
+}
+
+/**
+ * An encode of the same video at a given size, e.g. a 720p and a 1080p file.
+ */
+export interface VideoRendition {
+    src: string;
+    width: number;
+    height: number;
+}
+
+/**
+ * A tier together with the file its frames are extracted from.
+ */
+export interface QualitySelection {
+    tier: QualityTier;
+    /** The rendition to decode, or undefined to decode the component's `video`. */
+    rendition?: VideoRendition;
+}
+
+/**
+ * Default tiers, from lowest to highest.
+ */
+export const DEFAULT_QUALITY_TIERS: QualityTier[] = [
+    { name: "low", maxWidth: 854, maxHeight: 480, maxFrames: 30 },
+    { name: "medium", maxWidth: 1280, maxHeight: 720, maxFrames: 45 },
+    { name: "high", maxWidth: 1920, maxHeight: 1080, maxFrames: 60 },
+];
+
+/**
+ * How much bitmap memory a ScrollyVideo may use per GB of device memory.
+ */
+const BYTES_PER_DEVICE_GB = 64 * 1024 * 1024;
+
+/**
+ * Beyond this, extra pixels per CSS pixel aren't worth the memory.
+ */
+const MAX_USEFUL_DPR = 2;
+
+/**
+ * Connection types too slow to download a video quickly.
+ */
+const SLOW_CONNECTIONS = ["slow-2g", "2g", "3g"];
+
+/**
+ * Connection types too slow (or expensive) to download it twice.
+ */
+const METERED_CONNECTIONS = ["slow-2g", "2g"];
+
+/**
+ * The parts of the Network Information API we read. Not in lib.dom.d.ts,
+ * since only Chromium implements it.
+ */
+interface NetworkInformation {
+    effectiveType?: string;
+    saveData?: boolean;
+}
+
+/**
+ * What the browser tells us about the device and its connection.
+ */
+export interface QualitySignals {
+    /** Approximate device memory in GB. */
+    deviceMemory: number;
+    devicePixelRatio: number;
+    /** "slow-2g", "2g", "3g" or "4g", where known. */
+    effectiveType?: string;
+    /** The user asked for reduced data usage. */
+    saveData: boolean;
+}
+
+/**
+ * Reads the current quality signals. `navigator.deviceMemory` only exists in
+ * Chromium, so elsewhere touch devices are assumed to have 4 GB and others 8.
+ */
+export function getQualitySignals(): QualitySignals {
+    const nav = navigator as Navigator & { deviceMemory?: number; connection?: NetworkInformation };
+    const coarsePointer = window.matchMedia?.("(pointer: coarse)").matches ?? false;
+
+    return {
+        deviceMemory: nav.deviceMemory ?? (coarsePointer ? 4 : 8),
+        devicePixelRatio: window.devicePixelRatio || 1,
+        effectiveType: nav.connection?.effectiveType,
+        saveData: nav.connection?.saveData ?? false,
+    };
+}
+
+/**
+ * Bytes needed to hold a tier's frames as RGBA bitmaps, at most.
+ */
+export function getTierMemory({ maxWidth, maxHeight, maxFrames }: QualityTier): number {
+    return maxWidth * maxHeight * 4 * maxFrames;
+}
+
+/**
+ * Picks the smallest rendition at least as large as the tier, or the largest
+ * one if none is. Returns undefined if there are no renditions.
+ */
+export function selectRendition(renditions: VideoRendition[], tier: QualityTier): VideoRendition | undefined {
+    const sorted = [...renditions].sort((a, b) => a.width * a.height - b.width * b.height);
+    return sorted.find((rendition) => rendition.width >= tier.maxWidth || rendition.height >= tier.maxHeight)
+        ?? sorted[sorted.length - 1];
+}
+
+/**
+ * Whether the connection allows downloading a higher tier in the background.
+ */
+export function canUpgradeQuality(signals: QualitySignals): boolean {
+    return !signals.saveData && !METERED_CONNECTIONS.includes(signals.effectiveType ?? "");
+}
+
+export interface QualityPlanOptions {
+    /** Tiers from lowest to highest. */
+    tiers: QualityTier[];
+    renditions?: VideoRendition[];
+    signals: QualitySignals;
+    /** The canvas' layout size in CSS pixels. */
+    width: number;
+    height: number;
+}
+
+/**
+ * What to load first, and what to upgrade to once that's showing. They're the
+ * same tier unless a slow connection calls for a quick first load.
+ */
+export interface QualityPlan {
+    initial: QualitySelection;
+    target: QualitySelection;
+}
+
+/**
+ * Plans which tiers to load. The target is the smallest tier that covers the
+ * canvas at the device's pixel ratio, limited to what fits in the device's
+ * memory. On a slow connection the lowest tier is loaded first, and with
+ * Save-Data or on 2G nothing more.
+ */
+export function planQuality({ tiers, renditions = [], signals, width, height }: QualityPlanOptions): QualityPlan {
+    const budget = signals.deviceMemory * BYTES_PER_DEVICE_GB;
+    const dpr = Math.min(signals.devicePixelRatio, MAX_USEFUL_DPR);
+
+    // 1) The largest tier that fits in memory (the lowest always "fits")
+    let maxIndex = 0;
+    tiers.forEach((tier, index) => {
+        if (getTierMemory(tier) <= budget) maxIndex = index;
+    });
+
+    // 2) The smallest tier below that which covers the canvas
+    let targetIndex = tiers.findIndex((tier, index) =>
+        index >= maxIndex || (tier.maxWidth >= width * dpr && tier.maxHeight >= height * dpr)
+    );
+    if (!canUpgradeQuality(signals)) targetIndex = 0;
+
+    // 3) A quick first load on slow connections
+    const slow = signals.saveData || SLOW_CONNECTIONS.includes(signals.effectiveType ?? "");
+    const initialIndex = slow ? 0 : targetIndex;
+
+    const select = (tier: QualityTier): QualitySelection => ({ tier, rendition: selectRendition(renditions, tier) });
+    const target = select(tiers[targetIndex]);
+    return {
+        initial: initialIndex === targetIndex ? target : select(tiers[initialIndex]),
+        target,
+    };
+}
@@ -0,0 +1,87 @@
+import { createContext, useContext, useEffect } from "react";
+
+/**
+ * A small history-based router for the site's pages. Paths are relative to
+ * the deployment's base (`import.meta.env.BASE_URL`, e.g. "/web-design-demo/"),
+ * so "/" is the story index wherever the site is hosted.
+ *
+ * Every page is pre-rendered to its own index.html (see plugins/prerender.ts)
+ * and unknown URLs get 404.html, so deep links work on static hosts like
+ * GitHub Pages without hash routing.
+ */
+
+export interface RouterContextValue {
+    /** The current path below the base, always starting and ending with "/". */
+    path: string;
+
+    /** Goes to `path` (below the base), adding a history entry unless `replace`. */
+    navigate: (path: string, options?: { replace?: boolean }) => void;
+
+    /**
+     * Returns where the current page should scroll to once it's rendered: the
+     * top for new visits, where the visitor left it when going back or forward,
+     * or null to leave the scroll position alone (e.g. on first load, when the
+     * browser or a URL hash decides). Only the first call per visit gets it.
+     */
+    takeScrollPosition: () => number | null;
+}
+
+export const RouterContext = createContext<RouterContextValue | null>(null);
+
+const BASE = import.meta.env.BASE_URL;
+
+/**
+ * Normalizes `path` to start and end with "/", e.g. "home" to "/home/".
+ */
+export function normalizePath(path: string): string {
+    const trimmed = path.replace(/^\/+|\/+$/g, "");
+    return trimmed ? `/${trimmed}/` : "/";
+}
+
+/**
+ * Turns a URL's pathname into a router path, dropping the base and any
+ * "index.html".
+ */
+export function getRoutePath(pathname: string): string {
+    const path = pathname.startsWith(BASE) ? pathname.slice(BASE.length) : pathname;
+    return normalizePath(path.replace(/(^|\/)index\.html$/, ""));
+}
+
+/**
+ * The href for a router path, base included.
+ */
+export function toHref(path: string): string {
+    return BASE + normalizePath(path).slice(1);
+}
+
+/**
+ * The enclosing Router. Throws outside one, since links can't work there.
+ */
+export function useRouter(): RouterContextValue {
+    const router = useContext(RouterContext);
+    if (!router) throw new Error("useRouter must be used inside a Router");
+    return router;
+}
+
+/**
+ * Scrolls a freshly shown page to where the router says it belongs. Call it
+ * from each page's top-level component.
+ */
+export function useScrollRestoration() {
+    const { takeScrollPosition } = useRouter();
+
+    useEffect(() => {
+        const position = takeScrollPosition();
+        if (position != null) window.scrollTo(0, position);
+    }, [takeScrollPosition]);
+}
+
+/**
+ * Sets the document's title while the calling page is shown. Pre-rendered
+ * pages get theirs in the HTML; this keeps it right as the visitor navigates.
+ */
+export function useDocumentTitle(title: string) {
+    useEffect(() => {
+        document.title = title;
+    }, [title]);
+}
@@ -0,0 +1,219 @@
+import { createContext } from "react";
+import { EffectValue } from "@/lib/frame-effects";
+import { fetchWithTimeout } from "@/lib/video-errors";
+
+/**
+ * A soundtrack for ScrollyVideo, played through the Web Audio API. Browsers
+ * only allow audio after the visitor has interacted with the page, so nothing
+ * plays until they turn sound on with a SoundToggle.
+ */
+
+/**
+ * - "ambient": loops on its own; scrolling only shapes its volume and filter
+ * - "sync": follows the video, playing along while the visitor scrolls
+ *   forward and pausing when they stop (or scroll back)
+ */
+export type SoundtrackMode = "ambient" | "sync";
+
+export interface SoundtrackOptions {
+    /**
+     * The audio file. Defaults to the video's own audio track, which the
+     * hidden <video> never plays.
+     */
+    src?: string;
+
+    /** Defaults to "ambient". */
+    mode?: SoundtrackMode;
+
+    /**
+     * Volume (0-1), fixed or keyed to the video's scroll progress like a
+     * frame effect. Defaults to 1.
+     */
+    volume?: EffectValue;
+
+    /**
+     * Cutoff of a low-pass filter in Hz, fixed or keyed to progress, e.g. to
+     * muffle the sound until the visitor reaches a scene. No filter by default.
+     */
+    lowpass?: EffectValue;
+
+    /**
+     * How long (in seconds) the sound takes to fade in when the section
+     * comes into view, and out when it leaves. Defaults to 1.
+     */
+    fade?: number;
+}
+
+/**
+ * The soundtrack's parameters at one point of scroll progress.
+ */
+export interface SoundtrackParams {
+    /** The video time (in seconds) shown, which "sync" playback follows. */
+    time: number;
+    volume: number;
+    lowpass: number;
+}
+
+export interface ScrollAudio {
+    /** Brings the sound in line with the scroll position. */
+    update: (params: SoundtrackParams) => void;
+
+    /** Fades the sound in or out, as the section enters or leaves the viewport. */
+    setActive: (active: boolean) => void;
+
+    /** Stops playback and disconnects from the audio context. */
+    dispose: () => void;
+}
+
+/**
+ * The page-wide sound switch a SoundProvider shares with its ScrollyVideos.
+ */
+export interface SoundContextValue {
+    soundOn: boolean;
+
+    /**
+     * Turns sound on or off. Call it straight from a click or key handler:
+     * turning sound on unlocks audio, which needs a user gesture.
+     */
+    toggleSound: () => void;
+}
+
+export const SoundContext = createContext<SoundContextValue | null>(null);
+
+/**
+ * The cutoff used when there's no low-pass filter; above human hearing.
+ */
+export const NO_LOWPASS = 20000;
+
+/**
+ * How long (in s) scroll-driven volume and filter changes take to settle, so
+ * they glide rather than click.
+ */
+const PARAM_SMOOTHING = 0.05;
+
+/**
+ * How far (in s) "sync" playback may drift from the video before it jumps.
+ */
+const SYNC_DRIFT = 0.3;
+
+/**
+ * How long (in ms) scrolling has to stop before "sync" playback pauses.
+ */
+const SYNC_IDLE = 200;
+
+let audioContext: AudioContext | null = null;
+
+/**
+ * Returns the page's shared AudioContext, creating it on first use.
+ */
+function getAudioContext(): AudioContext {
+    audioContext ??= new AudioContext();
+    return audioContext;
+}
+
+/**
+ * Creates or resumes the shared AudioContext. Browsers only start one from
+ * inside a user gesture's handler, so call this there. Returns false if
+ * audio is still blocked.
+ */
+export async function unlockAudio(): Promise<boolean> {
+    const ctx = getAudioContext();
+    if (ctx.state === "suspended") await ctx.resume().catch(() => {});
+    return ctx.state === "running";
+}
+
+/**
+ * Suspends the shared AudioContext, e.g. when the visitor turns sound off.
+ */
+export function suspendAudio() {
+    audioContext?.suspend().catch(() => {});
+}
+
+/**
+ * Loads `src` and wires it up for scroll-driven playback: the source runs
+ * through a low-pass filter, a gain for scroll-keyed volume, and a gain for
+ * fading in and out. It starts silent until `setActive(true)`.
+ */
+export async function createScrollAudio(
+    src: string,
+    { mode = "ambient", fade = 1 }: Pick<SoundtrackOptions, "mode" | "fade">,
+    timeout: number,
+    signal?: AbortSignal
+): Promise<ScrollAudio> {
+    const ctx = getAudioContext();
+    const resp = await fetchWithTimeout(src, timeout, signal);
+    const buffer = await ctx.decodeAudioData(await resp.arrayBuffer());
+    signal?.throwIfAborted();
+
+    const filter = ctx.createBiquadFilter();
+    filter.type = "lowpass";
+    filter.frequency.value = NO_LOWPASS;
+
+    const volume = ctx.createGain();
+    const fader = ctx.createGain();
+    fader.gain.value = 0;
+
+    filter.connect(volume).connect(fader).connect(ctx.destination);
+
+    let source: AudioBufferSourceNode | null = null;
+
+    /**
+     * Where in the buffer playback started, and when (in context time), so we
+     * know where it is now.
+     */
+    let startOffset = 0;
+    let startedAt = 0;
+    let lastTime: number | null = null;
+    let idleTimer: ReturnType<typeof setTimeout> | undefined;
+
+    function start(offset: number) {
+        stop();
+        source = ctx.createBufferSource();
+        source.buffer = buffer;
+        source.loop = mode === "ambient";
+        source.connect(filter);
+        source.start(0, Math.min(Math.max(0, offset), buffer.duration));
+        startOffset = offset;
+        startedAt = ctx.currentTime;
+    }
+
+    function stop() {
+        source?.stop();
+        source?.disconnect();
+        source = null;
+    }
+
+    const playhead = () => startOffset + (ctx.currentTime - startedAt);
+
+    if (mode === "ambient") start(0);
+
+    return {
+        update({ time, volume: level, lowpass }) {
+            volume.gain.setTargetAtTime(Math.min(1, Math.max(0, level)), ctx.currentTime, PARAM_SMOOTHING);
+            filter.frequency.setTargetAtTime(Math.min(NO_LOWPASS, Math.max(10, lowpass)), ctx.currentTime, PARAM_SMOOTHING);
+            if (mode !== "sync") return;
+
+            // Play along while scrolling forward; audio can't run backwards
+            const forward = lastTime != null && time > lastTime;
+            lastTime = time;
+            clearTimeout(idleTimer);
+            if (!forward) {
+                stop();
+                return;
+            }
+
+            if (!source || Math.abs(playhead() - time) > SYNC_DRIFT) start(time);
+            idleTimer = setTimeout(stop, SYNC_IDLE);
+        },
+
+        setActive(active) {
+            fader.gain.setTargetAtTime(active ? 1 : 0, ctx.currentTime, Math.max(0.01, fade / 3));
+        },
+
+        dispose() {
+            clearTimeout(idleTimer);
+            stop();
+            fader.disconnect();
+        },
+    };
+}
@@ -0,0 +1,78 @@
+import { animate } from "motion/react";
+import { getScroller, ScrollSource, scrollToPosition } from "@/lib/scroll-progress";
+
+/**
+ * Drives a scroll-linked section by scrolling its scroller, so seeking and
+ * playback stay in step with everything else tied to the scroll position
+ * (cues, progress bars, snapping). Positions come from
+ * `getScrollPositionForProgress`.
+ */
+
+/**
+ * A named moment in a ScrollyVideo, at a video time or a frame number.
+ */
+export interface ScrollyChapter {
+    /** Used as the URL hash for deep links, e.g. "chapter-2" for `#chapter-2`. */
+    id: string;
+
+    /** Video time in seconds. */
+    time?: number;
+
+    /** Frame number, counted in extracted frames. Used if `time` isn't set. */
+    frame?: number;
+
+    title?: string;
+}
+
+export interface ScrollAnimationOptions {
+    /** Seconds; 0 jumps straight there. */
+    duration: number;
+
+    /** Defaults to "linear", which plays the video at a steady speed. */
+    ease?: "linear" | "easeInOut";
+
+    /** Aborting stops the animation where it is. */
+    signal?: AbortSignal;
+}
+
+/**
+ * Events that mean the visitor wants to scroll themselves.
+ */
+const INTERRUPTING_EVENTS = ["wheel", "touchstart", "pointerdown", "keydown"];
+
+/**
+ * Scrolls the source's scroller from `from` to `to` pixels over `duration`
+ * seconds. Resolves when it gets there, or early if aborted or the visitor
+ * starts scrolling themselves.
+ */
+export function animateScroll(
+    source: ScrollSource,
+    from: number,
+    to: number,
+    { duration, ease = "linear", signal }: ScrollAnimationOptions
+): Promise<void> {
+    if (duration <= 0 || signal?.aborted) {
+        if (!signal?.aborted) scrollToPosition(source, to);
+        return Promise.resolve();
+    }
+
+    return new Promise((resolve) => {
+        const scroller = getScroller(source);
+        const controls = animate(from, to, {
+            duration,
+            ease,
+            onUpdate: (value) => scrollToPosition(source, value),
+            onComplete: stop,
+        });
+
+        function stop() {
+            controls.stop();
+            INTERRUPTING_EVENTS.forEach((type) => scroller.removeEventListener(type, stop));
+            signal?.removeEventListener("abort", stop);
+            resolve();
+        }
+
+        INTERRUPTING_EVENTS.forEach((type) => scroller.addEventListener(type, stop, { passive: true }));
+        signal?.addEventListener("abort", stop, { once: true });
+    });
+}
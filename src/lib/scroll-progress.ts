@@ -0,0 +1,218 @@
+import { MotionValue, useScroll, UseScrollOptions, useTransform } from "motion/react";
+import { RefObject } from "react";
+
+/**
+ * Where a scroll-linked component reads its progress from: how far a target
+ * element has scrolled through a scroller (the window, or any overflowing
+ * element) along one axis, between two or more offsets. The math matches
+ * motion's `useScroll`, so positions computed here land on the same progress
+ * the component draws.
+ */
+
+export type ScrollAxis = "x" | "y";
+
+/**
+ * Offsets as `useScroll` takes them, e.g. ["start start", "end end"].
+ */
+export type ScrollOffset = NonNullable<UseScrollOptions["offset"]>;
+
+/**
+ * How scroll progress maps onto the video:
+ * - "forward": start to end
+ * - "reverse": end to start
+ * - "ping-pong": start to end over the first half, then back again
+ */
+export type FrameDirection = "forward" | "reverse" | "ping-pong";
+
+/**
+ * Pinned-section behaviour: progress runs from the target's start meeting the
+ * viewport's start to its end meeting the viewport's end.
+ */
+export const DEFAULT_SCROLL_OFFSET: ScrollOffset = ["start start", "end end"];
+
+export interface ScrollSource {
+    /** The element whose scroll position is measured. */
+    target: RefObject<HTMLElement>;
+
+    /** The scrolling element; the window if not set. */
+    container?: RefObject<HTMLElement>;
+
+    /** Defaults to "y". */
+    axis?: ScrollAxis;
+
+    /** Defaults to DEFAULT_SCROLL_OFFSET. */
+    offset?: ScrollOffset;
+
+    /** Defaults to "forward". */
+    direction?: FrameDirection;
+}
+
+/**
+ * Maps scroll progress (0-1) to how far (0-1) through the video it shows.
+ */
+export function applyDirection(progress: number, direction: FrameDirection = "forward"): number {
+    switch (direction) {
+        case "reverse":
+            return 1 - progress;
+        case "ping-pong":
+            return 1 - Math.abs(2 * progress - 1);
+        default:
+            return progress;
+    }
+}
+
+/**
+ * The scroll progresses (0-1) at which the video is `videoProgress` of the way
+ * through, earliest first. Ping-pong passes every point twice.
+ */
+export function toScrollProgress(videoProgress: number, direction: FrameDirection = "forward"): number[] {
+    switch (direction) {
+        case "reverse":
+            return [1 - videoProgress];
+        case "ping-pong":
+            return [videoProgress / 2, 1 - videoProgress / 2];
+        default:
+            return [videoProgress];
+    }
+}
+
+/**
+ * Returns how far (0-1) through the video the scroll position is, measured
+ * like `getScrollPositionForProgress` and kept up to date as it changes.
+ */
+export function useScrollProgress({
+    target,
+    container,
+    axis = "y",
+    offset = DEFAULT_SCROLL_OFFSET,
+    direction = "forward",
+}: ScrollSource): MotionValue<number> {
+    const { scrollXProgress, scrollYProgress } = useScroll({
+        target,
+        container,
+        axis,
+        offset,
+        layoutEffect: false,
+    });
+
+    return useTransform(axis === "x" ? scrollXProgress : scrollYProgress, (progress) => applyDirection(progress, direction));
+}
+
+const NAMED_EDGES: Record<string, number> = { start: 0, center: 0.5, end: 1 };
+
+/**
+ * Resolves one side of an offset ("start", "50%", "100px", 0.5...) to pixels
+ * along an element (or the viewport) `length` pixels long.
+ */
+function resolveEdge(edge: string | number, length: number): number {
+    if (typeof edge === "string" && edge in NAMED_EDGES) edge = NAMED_EDGES[edge];
+    if (typeof edge === "number") return edge * length;
+
+    const value = parseFloat(edge);
+    if (edge.endsWith("px")) return value;
+    if (edge.endsWith("%")) return (value / 100) * length;
+    if (edge.endsWith("vw")) return (value / 100) * document.documentElement.clientWidth;
+    if (edge.endsWith("vh")) return (value / 100) * document.documentElement.clientHeight;
+    return value * length;
+}
+
+/**
+ * Measures a source along its axis: where the target starts within the
+ * scroller's content, how long it and the scroller's viewport are, and where
+ * the scroller is scrolled to.
+ */
+function measure({ target, container, axis = "y" }: ScrollSource) {
+    const targetEl = target.current;
+    if (!targetEl) return null;
+
+    const scroller = container?.current;
+    const start = axis === "x" ? "left" : "top";
+    const scroll = scroller
+        ? (axis === "x" ? scroller.scrollLeft : scroller.scrollTop)
+        : (axis === "x" ? window.scrollX : window.scrollY);
+    const scrollerStart = scroller ? scroller.getBoundingClientRect()[start] : 0;
+
+    return {
+        inset: targetEl.getBoundingClientRect()[start] - scrollerStart + scroll,
+        targetLength: axis === "x" ? targetEl.clientWidth : targetEl.clientHeight,
+        viewportLength: scroller
+            ? (axis === "x" ? scroller.clientWidth : scroller.clientHeight)
+            : (axis === "x" ? window.innerWidth : window.innerHeight),
+        scroll,
+    };
+}
+
+/**
+ * The scroll positions (in pixels) at which each offset is reached; progress
+ * runs evenly between them.
+ */
+function resolveOffsets(source: ScrollSource) {
+    const measured = measure(source);
+    if (!measured) return null;
+    const { inset, targetLength, viewportLength } = measured;
+
+    const positions = (source.offset ?? DEFAULT_SCROLL_OFFSET).map((offset) => {
+        let edges: (string | number)[];
+        if (Array.isArray(offset)) edges = offset;
+        else if (typeof offset === "number") edges = [offset, offset];
+        else if (offset.trim().includes(" ")) edges = offset.trim().split(" ");
+        // A lone named edge applies to both; a lone length only to the target
+        else edges = [offset, offset in NAMED_EDGES ? offset : 0];
+
+        return inset + resolveEdge(edges[0], targetLength) - resolveEdge(edges[1], viewportLength);
+    });
+    return { positions, scroll: measured.scroll };
+}
+
+/**
+ * Returns the scroll position (in pixels, along the source's axis) at which
+ * the scroll progress is `progress` (0-1), or null if the target isn't mounted.
+ */
+export function getScrollPositionForProgress(source: ScrollSource, progress: number): number | null {
+    const resolved = resolveOffsets(source);
+    if (!resolved) return null;
+    const { positions } = resolved;
+    if (positions.length < 2) return positions[0] ?? null;
+
+    const segment = Math.min(1, Math.max(0, progress)) * (positions.length - 1);
+    const index = Math.min(positions.length - 2, Math.floor(segment));
+    return positions[index] + (positions[index + 1] - positions[index]) * (segment - index);
+}
+
+/**
+ * Returns the scroll progress (0-1) at the scroller's current position.
+ */
+export function getCurrentScrollProgress(source: ScrollSource): number {
+    const resolved = resolveOffsets(source);
+    if (!resolved || resolved.positions.length < 2) return 0;
+    const { positions, scroll } = resolved;
+
+    if (scroll <= positions[0]) return 0;
+    for (let i = 1; i < positions.length; i++) {
+        if (scroll <= positions[i]) {
+            const span = positions[i] - positions[i - 1];
+            const within = span > 0 ? (scroll - positions[i - 1]) / span : 1;
+            return (i - 1 + within) / (positions.length - 1);
+        }
+    }
+    return 1;
+}
+
+/**
+ * Scrolls the source's scroller to `position` pixels along its axis.
+ */
+export function scrollToPosition(
+    { container, axis = "y" }: ScrollSource,
+    position: number,
+    behavior: ScrollBehavior = "instant"
+) {
+    const scroller = container?.current ?? window;
+    scroller.scrollTo(axis === "x" ? { left: position, behavior } : { top: position, behavior });
+}
+
+/**
+ * The element (or window) that scroll events for the source fire on.
+ */
+export function getScroller({ container }: ScrollSource): HTMLElement | Window {
+    return container?.current ?? window;
+}
@@ -0,0 +1,42 @@
+import { useEffect, useState } from "react";
+
+/**
+ * The band of the viewport a section has to cross to count as active: a thin
+ * strip 40% of the way down, so headings become active as they settle in.
+ */
+const SPY_ROOT_MARGIN = "-40% 0px -59% 0px";
+
+/**
+ * Returns the id of the element the visitor is reading, out of `ids`, or null
+ * until one is reached. Elements can be nested (a card inside a section); the
+ * last one in `ids` that's in view wins, so list them in page order.
+ */
+export function useScrollSpy(ids: string[]): string | null {
+    const [active, setActive] = useState<string | null>(null);
+
+    // Re-observe only when the ids themselves change
+    const key = ids.join(" ");
+
+    useEffect(() => {
+        const order = key.split(" ").filter(Boolean);
+        const visible = new Set<string>();
+
+        const observer = new IntersectionObserver((entries) => {
+            entries.forEach((entry) => {
+                if (entry.isIntersecting) visible.add(entry.target.id);
+                else visible.delete(entry.target.id);
+            });
+            // Between sections, the last one stays active
+            const current = order.filter((id) => visible.has(id)).pop();
+            if (current) setActive(current);
+        }, { rootMargin: SPY_ROOT_MARGIN });
+
+        order.forEach((id) => {
+            const element = document.getElementById(id);
+            if (element) observer.observe(element);
+        });
+        return () => observer.disconnect();
+    }, [key]);
+
+    return active;
+}
@@ -0,0 +1,59 @@
+import { Story } from "@/lib/story";
+import { getStoryMeta, StoryMeta } from "@/lib/story-meta";
+
+/**
+ * The site's stories: every `*.story.json` in src/content, each published
+ * at a path named after its file, e.g. `src/content/harbor.story.json` at
+ * `/harbor/`. The index at `/` lists them all.
+ *
+ * The dev server adds the stories in fixtures/, whose videos fail on purpose
+ * (see plugins/error-fixtures.ts).
+ */
+
+export interface StoryEntry {
+    slug: string;
+    story: Story;
+    meta: StoryMeta;
+}
+
+/**
+ * - "index": the list of stories
+ * - "story": one story
+ * - "not-found": anything else
+ */
+export type StoryRoute =
+    | { type: "index" }
+    | { type: "story"; entry: StoryEntry }
+    | { type: "not-found" };
+
+export const STORY_INDEX_TITLE = "Stories";
+export const STORY_INDEX_DESCRIPTION = "Scroll-driven video stories.";
+
+const modules = import.meta.glob<Story>("../content/*.story.json", { eager: true, import: "default" });
+const fixtureModules = import.meta.env.DEV
+    ? import.meta.glob<Story>("../../fixtures/*.story.json", { eager: true, import: "default" })
+    : {};
+
+export const STORIES: StoryEntry[] = Object.entries({ ...modules, ...fixtureModules })
+    .map(([file, story]) => ({
+        slug: file.slice(file.lastIndexOf("/") + 1).replace(/\.story\.json$/, ""),
+        story,
+        meta: getStoryMeta(story),
+    }))
+    .sort((a, b) => a.slug.localeCompare(b.slug));
+
+/**
+ * The router path of a story.
+ */
+export function getStoryPath(slug: string): string {
+    return `/${slug}/`;
+}
+
+/**
+ * Works out what to show at a (normalized) router path.
+ */
+export function matchStoryRoute(path: string): StoryRoute {
+    if (path === "/") return { type: "index" };
+    const entry = STORIES.find((candidate) => getStoryPath(candidate.slug) === path);
+    return entry ? { type: "story", entry } : { type: "not-found" };
+}
@@ -0,0 +1,55 @@
+import { Story } from "@/lib/story";
+
+/**
+ * What a story page tells search engines and link previews about itself.
+ */
+export interface StoryMeta {
+    title: string;
+    description?: string;
+
+    /** URL of the preview image: the story's own, or the first video's poster. */
+    image?: string;
+
+    /** URL of the first video, to take a preview frame from when there's no image. */
+    video?: string;
+}
+
+/**
+ * Search engines cut descriptions off around here.
+ */
+const MAX_DESCRIPTION_LENGTH = 160;
+
+/**
+ * Shortens `text` to at most `max` characters, breaking between words.
+ */
+function truncate(text: string, max: number): string {
+    const clean = text.replace(/\s+/g, " ").trim();
+    if (clean.length <= max) return clean;
+    const cut = clean.slice(0, max - 1);
+    const lastSpace = cut.lastIndexOf(" ");
+    return (lastSpace > 0 ? cut.slice(0, lastSpace) : cut).replace(/[\s,.;:]+$/, "") + "…";
+}
+
+/**
+ * Describes `story` for the page's <head>. Without a `description`, the
+ * first body text on the page stands in for one.
+ */
+export function getStoryMeta(story: Story): StoryMeta {
+    const bodies = story.sections.flatMap((section) => {
+        switch (section.type) {
+            case "scrolly-video":
+                return section.cards?.map((card) => card.body) ?? [];
+            default:
+                return section.body ? [section.body] : [];
+        }
+    });
+    const description = story.description ?? bodies[0];
+
+    const video = story.sections.find((section) => section.type === "scrolly-video");
+    return {
+        title: story.title,
+        description: description && truncate(description, MAX_DESCRIPTION_LENGTH),
+        image: story.image ?? video?.poster,
+        video: video?.video,
+    };
+}
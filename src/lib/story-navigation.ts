@@ -0,0 +1,82 @@
+import { ScrollyVideoSection, Story } from "@/lib/story";
+
+/**
+ * One link in the page's navigation: a section, or a card inside a scrolly
+ * video section. `id` is set on the element it links to.
+ */
+export interface StoryNavItem {
+    id: string;
+    label: string;
+
+    /** Index into the story's sections. */
+    section: number;
+
+    /** Index into the section's cards, for cards inside a scrolly video. */
+    card?: number;
+}
+
+/**
+ * The name a scrolly video section goes by: its title caption, else its alt text.
+ */
+export function getScrollyVideoLabel(section: ScrollyVideoSection): string {
+    return section.captions?.find((caption) => caption.style === "title")?.text ?? section.alt ?? "Video";
+}
+
+/**
+ * Turns a label into a URL-hash-friendly id, e.g. "Section 1" into "section-1".
+ */
+function slugify(label: string): string {
+    const slug = label
+        .normalize("NFKD")
+        .toLowerCase()
+        .replace(/[^\w\s-]/g, "")
+        .trim()
+        .replace(/[\s_]+/g, "-");
+    return slug || "section";
+}
+
+/**
+ * Lists the story's sections (and the cards inside its scrolly videos) in
+ * page order, with ids unique across the page, chapter ids included.
+ */
+export function getStoryNavigation(story: Story): StoryNavItem[] {
+    const taken = new Set<string>();
+    story.sections.forEach((section) => {
+        if (section.type === "scrolly-video") section.chapters?.forEach((chapter) => taken.add(chapter.id));
+    });
+
+    const uniqueId = (label: string) => {
+        const base = slugify(label);
+        let id = base;
+        for (let n = 2; taken.has(id); n++) id = `${base}-${n}`;
+        taken.add(id);
+        return id;
+    };
+
+    const items: StoryNavItem[] = [];
+    story.sections.forEach((section, index) => {
+        switch (section.type) {
+            case "scrolly-video": {
+                const label = getScrollyVideoLabel(section);
+                items.push({ id: uniqueId(label), label, section: index });
+                section.cards?.forEach((card, cardIndex) => {
+                    items.push({ id: uniqueId(card.title), label: card.title, section: index, card: cardIndex });
+                });
+                break;
+            }
+
+            case "info-card":
+            case "color":
+                items.push({ id: uniqueId(section.title), label: section.title, section: index });
+                break;
+        }
+    });
+    return items;
+}
+
+/**
+ * Finds the id given to a section, or to one of its cards.
+ */
+export function getStoryNavId(items: StoryNavItem[], section: number, card?: number): string | undefined {
+    return items.find((item) => item.section === section && item.card === card)?.id;
+}
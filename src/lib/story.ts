@@ -0,0 +1,687 @@
+/**
+ * The content format for story pages: a JSON file (`*.story.json`) listing
+ * the page's sections in order. Editors write these; the story-content Vite
+ * plugin validates them at build time and StoryRenderer turns them into the
+ * page.
+ *
+ * Media paths (`video`, `poster`, `image`, and `src` in renditions, card
+ * media and soundtracks) starting with "./", "../" or "@/" are bundled like
+ * imports, relative to the story file ("@/" is src/). Anything else (e.g.
+ * "https://...") is used as-is.
+ *
+ * Shared between the plugin (Node) and the app (browser), so this file must
+ * stay free of DOM APIs.
+ */
+
+export interface Story {
+    /** Shown in the page header. */
+    title: string;
+
+    /**
+     * A sentence or two for search results and link previews. Defaults to
+     * the start of the first card's (or section's) body.
+     */
+    description?: string;
+
+    /**
+     * Path or URL of the image shown in link previews. Defaults to a frame
+     * from the first video.
+     */
+    image?: string;
+
+    /** The page's sections, top to bottom. */
+    sections: StorySection[];
+}
+
+export type StorySection = ScrollyVideoSection | InfoCardSection | ColorSection;
+
+/**
+ * A video scrubbed by scrolling, with captions timed to the video and cards
+ * scrolling over it.
+ */
+export interface ScrollyVideoSection {
+    type: "scrolly-video";
+
+    /** Path or URL of the video. */
+    video: string;
+
+    /** Describes what the video shows, for screen readers. */
+    alt?: string;
+
+    /** Path or URL of a still image shown instead of the video when the visitor prefers reduced motion. */
+    poster?: string;
+
+    /** The maximum number of frames to extract from the video, whichever quality tier is picked. */
+    maxFrames?: number;
+
+    /** "low", "medium" or "high" to force a quality tier; see ScrollyVideo's `quality`. Defaults to "auto". */
+    quality?: "auto" | "low" | "medium" | "high";
+
+    /** Encodes of `video` at other sizes, picked from by quality tier. */
+    renditions?: StoryRendition[];
+
+    /** How to blend between frames; see ScrollyVideo's `blend`. Defaults to "webgl". */
+    blend?: "none" | "crossfade" | "webgl";
+
+    /** How frames are sized to the screen, as with CSS `object-fit`. Defaults to "cover". */
+    fit?: StoryFit;
+
+    /** The point of the video kept in view when it's cropped; see ScrollyVideo's `focalPoint`. */
+    focalPoint?: StoryFocalPoint | StoryFocalKeyframe[];
+
+    /** Different framing, or a different video, for some screens. The first match wins. */
+    artDirection?: StoryArtDirection[];
+
+    /** Visual effects on the video, optionally keyed to scroll progress; see ScrollyVideo's `effects`. */
+    effects?: StoryEffect[];
+
+    /**
+     * Sound following the scroll position, played once the visitor turns it
+     * on; `true` uses the video's own audio. See ScrollyVideo's `soundtrack`.
+     */
+    soundtrack?: boolean | StorySoundtrack;
+
+    /** Named moments, linkable as `#<id>`. */
+    chapters?: StoryChapter[];
+
+    /** Settle on the nearest chapter when scrolling stops near one. Defaults to false. */
+    snap?: boolean;
+
+    /** Text overlays shown while the video is within their time range. */
+    captions?: StoryCaption[];
+
+    /** Cards that scroll over the video. */
+    cards?: StoryCard[];
+}
+
+export interface StoryRendition {
+    /** Path or URL of the encode. */
+    src: string;
+    width: number;
+    height: number;
+}
+
+export type StoryFit = "cover" | "contain" | "fill";
+
+/**
+ * A point on the video, from 0 (left/top) to 1 (right/bottom).
+ */
+export interface StoryFocalPoint {
+    x: number;
+    y: number;
+}
+
+export interface StoryFocalKeyframe extends StoryFocalPoint {
+    /** In seconds of video time. */
+    time: number;
+}
+
+export interface StoryArtDirection {
+    /** A media query, e.g. "(orientation: portrait)". */
+    media: string;
+
+    /** Path or URL of a video cut for these screens. */
+    video?: string;
+
+    /** Encodes of this entry's `video` at other sizes. */
+    renditions?: StoryRendition[];
+
+    fit?: StoryFit;
+    focalPoint?: StoryFocalPoint | StoryFocalKeyframe[];
+}
+
+/**
+ * A fixed value, or `{ progress, value }` keyframes with progress from 0 to 1.
+ */
+export type StoryEffectValue = number | { progress: number; value: number }[];
+
+export type StoryEffect =
+    | { type: "blur"; radius: StoryEffectValue }
+    | { type: "grayscale" | "sepia" | "vignette"; amount: StoryEffectValue }
+    | {
+        type: "grade";
+        brightness?: StoryEffectValue;
+        contrast?: StoryEffectValue;
+        saturation?: StoryEffectValue;
+        hue?: StoryEffectValue;
+    }
+    | { type: "text-mask"; text: string; font?: string; amount?: StoryEffectValue };
+
+export interface StorySoundtrack {
+    /** Path or URL of the audio. Defaults to the video's own audio track. */
+    src?: string;
+
+    /** "ambient" loops; "sync" plays along with the video. Defaults to "ambient". */
+    mode?: "ambient" | "sync";
+
+    /** Volume from 0 to 1, optionally keyed to scroll progress. Defaults to 1. */
+    volume?: StoryEffectValue;
+
+    /** Low-pass filter cutoff in Hz, optionally keyed to scroll progress. */
+    lowpass?: StoryEffectValue;
+
+    /** Fade in/out duration in seconds as the section enters and leaves view. Defaults to 1. */
+    fade?: number;
+}
+
+export interface StoryChapter {
+    /** Used in links to the chapter, e.g. "intro" for `#intro`. */
+    id: string;
+
+    /** Where the chapter starts, in seconds of video time. */
+    time: number;
+
+    title?: string;
+}
+
+export interface StoryCaption {
+    text: string;
+
+    /** When the caption appears, in seconds of video time. Defaults to 0. */
+    start?: number;
+
+    /** When the caption disappears, in seconds of video time. Defaults to the end of the video. */
+    end?: number;
+
+    /** Fade duration in seconds, or [fade in, fade out]. Defaults to 0. */
+    fade?: number | [number, number];
+
+    /** "title" renders a large heading; "caption" plain text. Defaults to "caption". */
+    style?: "title" | "caption";
+}
+
+export interface StoryCard {
+    title: string;
+    body: string;
+
+    /** Path or URL of an image shown next to the text. Shorthand for an "image" `media`. */
+    image?: string;
+
+    /** An image, gallery, looping video or embed shown next to the text. */
+    media?: StoryCardMedia;
+
+    /** "text", "quote" or "stat"; see InfoCard's `variant`. Defaults to "text". */
+    variant?: "text" | "quote" | "stat";
+
+    /** Who said it, for quotes. */
+    attribution?: string;
+
+    /** The figure shown by "stat" cards. */
+    stat?: { value: string; label?: string };
+
+    /** Which side the card sits on. Defaults to alternating. */
+    align?: "left" | "right" | "center";
+
+    /** "tall", "screen" or "auto"; see InfoCard's `height`. Defaults to "tall". */
+    height?: "tall" | "screen" | "auto";
+
+    /** How the card enters: "none", "fade", "rise", "slide" or "zoom". Defaults to "none". */
+    animation?: "none" | "fade" | "rise" | "slide" | "zoom";
+
+    /** Animate out again when scrolled past. Defaults to false. */
+    exit?: boolean;
+}
+
+/**
+ * `srcSet` URLs are used as-is; only `src` is bundled.
+ */
+export interface StoryImage {
+    src: string;
+    alt?: string;
+    srcSet?: string;
+    sizes?: string;
+    width?: number;
+    height?: number;
+}
+
+export type StoryCardMedia =
+    | ({ type: "image" } & StoryImage)
+    | { type: "gallery"; images: StoryImage[] }
+    | { type: "video"; src: string; poster?: string; alt?: string }
+    | { type: "embed"; src: string; title: string; aspectRatio?: number };
+
+/**
+ * A single card on its own, outside any video.
+ */
+export interface InfoCardSection extends StoryCard {
+    type: "info-card";
+}
+
+/**
+ * A pinned section whose background moves through `colors` as it's scrolled.
+ */
+export interface ColorSection {
+    type: "color";
+    title: string;
+    body?: string;
+
+    /**
+     * Two or more hex, rgb() or hsl() colors, in scroll order, blended
+     * smoothly into each other. Gradients and `url(...)` images are allowed
+     * too; they fade in over the neighbouring colors.
+     */
+    colors: string[];
+}
+
+/**
+ * Thrown by validateStory with every problem found, each prefixed with the
+ * path to the offending value (e.g. `sections[2].colors`).
+ */
+export class StoryValidationError extends Error {
+    issues: string[];
+
+    constructor(issues: string[]) {
+        super(`Invalid story:\n${issues.map((issue) => `  - ${issue}`).join("\n")}`);
+        this.name = "StoryValidationError";
+        this.issues = issues;
+    }
+}
+
+const SECTION_TYPES = ["scrolly-video", "info-card", "color"];
+const BLEND_MODES = ["none", "crossfade", "webgl"];
+const CAPTION_STYLES = ["title", "caption"];
+const QUALITIES = ["auto", "low", "medium", "high"];
+const FITS = ["cover", "contain", "fill"];
+const CARD_VARIANTS = ["text", "quote", "stat"];
+const CARD_ALIGNMENTS = ["left", "right", "center"];
+const CARD_HEIGHTS = ["tall", "screen", "auto"];
+const CARD_ANIMATIONS = ["none", "fade", "rise", "slide", "zoom"];
+const CARD_MEDIA_TYPES = ["image", "gallery", "video", "embed"];
+const SOUNDTRACK_MODES = ["ambient", "sync"];
+
+// Each effect's numeric parameters, and which of them are required
+const EFFECT_PARAMS: Record<string, { params: string[]; required: string[] }> = {
+    "blur": { params: ["radius"], required: ["radius"] },
+    "grayscale": { params: ["amount"], required: ["amount"] },
+    "sepia": { params: ["amount"], required: ["amount"] },
+    "vignette": { params: ["amount"], required: ["amount"] },
+    "grade": { params: ["brightness", "contrast", "saturation", "hue"], required: [] },
+    "text-mask": { params: ["amount"], required: [] },
+};
+
+// Hex, functional (rgb(), hsl(), gradients, url()) or named colors
+const CSS_COLOR = /^(#[0-9a-f]{3,8}|[a-z]+\(.+\)|[a-z]+)$/i;
+
+type Issues = string[];
+type Json = Record<string, unknown>;
+
+function isObject(value: unknown): value is Json {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+    if (value === null) return "null";
+    if (Array.isArray(value)) return "an array";
+    return typeof value === "string" ? JSON.stringify(value) : `a ${typeof value}`;
+}
+
+function checkString(object: Json, key: string, path: string, issues: Issues, required: boolean) {
+    const value = object[key];
+    if (value === undefined) {
+        if (required) issues.push(`${path}.${key}: is required`);
+    } else if (typeof value !== "string" || !value.trim()) {
+        issues.push(`${path}.${key}: expected non-empty text, got ${describe(value)}`);
+    }
+}
+
+function checkNumber(object: Json, key: string, path: string, issues: Issues, min = 0) {
+    const value = object[key];
+    if (value === undefined) return;
+    if (typeof value !== "number" || !Number.isFinite(value) || value < min) {
+        issues.push(`${path}.${key}: expected a number of at least ${min}, got ${describe(value)}`);
+    }
+}
+
+function checkOneOf(object: Json, key: string, path: string, issues: Issues, options: string[]) {
+    const value = object[key];
+    if (value !== undefined && !options.includes(value as string)) {
+        issues.push(`${path}.${key}: expected one of ${options.map((o) => `"${o}"`).join(", ")}, got ${describe(value)}`);
+    }
+}
+
+function checkUnknownKeys(object: Json, path: string, issues: Issues, allowed: string[]) {
+    for (const key of Object.keys(object)) {
+        if (!allowed.includes(key)) issues.push(`${path}.${key}: unknown field`);
+    }
+}
+
+function checkArray(object: Json, key: string, path: string, issues: Issues): unknown[] {
+    const value = object[key];
+    if (value === undefined) return [];
+    if (!Array.isArray(value)) {
+        issues.push(`${path}.${key}: expected a list, got ${describe(value)}`);
+        return [];
+    }
+    return value;
+}
+
+function checkImage(image: unknown, path: string, issues: Issues, extraKeys: string[] = []) {
+    if (!isObject(image)) {
+        issues.push(`${path}: expected an object, got ${describe(image)}`);
+        return;
+    }
+    checkUnknownKeys(image, path, issues, ["src", "alt", "srcSet", "sizes", "width", "height", ...extraKeys]);
+    checkString(image, "src", path, issues, true);
+    checkString(image, "alt", path, issues, false);
+    checkString(image, "srcSet", path, issues, false);
+    checkString(image, "sizes", path, issues, false);
+    checkNumber(image, "width", path, issues, 1);
+    checkNumber(image, "height", path, issues, 1);
+}
+
+function checkCardMedia(media: unknown, path: string, issues: Issues) {
+    if (!isObject(media)) {
+        issues.push(`${path}: expected an object, got ${describe(media)}`);
+        return;
+    }
+    if (!CARD_MEDIA_TYPES.includes(media.type as string)) {
+        issues.push(`${path}.type: expected one of ${CARD_MEDIA_TYPES.map((t) => `"${t}"`).join(", ")}, got ${describe(media.type)}`);
+        return;
+    }
+
+    switch (media.type) {
+        case "image":
+            checkImage(media, path, issues, ["type"]);
+            break;
+
+        case "gallery": {
+            checkUnknownKeys(media, path, issues, ["type", "images"]);
+            const images = checkArray(media, "images", path, issues);
+            if (!images.length) issues.push(`${path}.images: expected at least 1 image`);
+            images.forEach((image, i) => checkImage(image, `${path}.images[${i}]`, issues));
+            break;
+        }
+
+        case "video":
+            checkUnknownKeys(media, path, issues, ["type", "src", "poster", "alt"]);
+            checkString(media, "src", path, issues, true);
+            checkString(media, "poster", path, issues, false);
+            checkString(media, "alt", path, issues, false);
+            break;
+
+        case "embed":
+            checkUnknownKeys(media, path, issues, ["type", "src", "title", "aspectRatio"]);
+            checkString(media, "src", path, issues, true);
+            checkString(media, "title", path, issues, true);
+            checkNumber(media, "aspectRatio", path, issues, 0.01);
+            break;
+    }
+}
+
+function checkCard(card: unknown, path: string, issues: Issues, extraKeys: string[] = []) {
+    if (!isObject(card)) {
+        issues.push(`${path}: expected an object, got ${describe(card)}`);
+        return;
+    }
+    checkUnknownKeys(card, path, issues, [
+        "title", "body", "image", "media", "variant", "attribution", "stat", "align", "height", "animation", "exit",
+        ...extraKeys,
+    ]);
+    checkString(card, "title", path, issues, true);
+    checkString(card, "body", path, issues, true);
+    checkString(card, "image", path, issues, false);
+    if (card.image !== undefined && card.media !== undefined) {
+        issues.push(`${path}.image: can't be used together with media`);
+    }
+    if (card.media !== undefined) checkCardMedia(card.media, `${path}.media`, issues);
+
+    checkOneOf(card, "variant", path, issues, CARD_VARIANTS);
+    checkString(card, "attribution", path, issues, false);
+    if (card.stat !== undefined) {
+        if (!isObject(card.stat)) {
+            issues.push(`${path}.stat: expected an object, got ${describe(card.stat)}`);
+        } else {
+            checkUnknownKeys(card.stat, `${path}.stat`, issues, ["value", "label"]);
+            checkString(card.stat, "value", `${path}.stat`, issues, true);
+            checkString(card.stat, "label", `${path}.stat`, issues, false);
+        }
+    }
+    if (card.variant === "stat" && card.stat === undefined) issues.push(`${path}.stat: is required for "stat" cards`);
+
+    checkOneOf(card, "align", path, issues, CARD_ALIGNMENTS);
+    checkOneOf(card, "height", path, issues, CARD_HEIGHTS);
+    checkOneOf(card, "animation", path, issues, CARD_ANIMATIONS);
+    if (card.exit !== undefined && typeof card.exit !== "boolean") {
+        issues.push(`${path}.exit: expected true or false, got ${describe(card.exit)}`);
+    }
+}
+
+function checkRendition(rendition: unknown, path: string, issues: Issues) {
+    if (!isObject(rendition)) {
+        issues.push(`${path}: expected an object, got ${describe(rendition)}`);
+        return;
+    }
+    checkUnknownKeys(rendition, path, issues, ["src", "width", "height"]);
+    checkString(rendition, "src", path, issues, true);
+    for (const key of ["width", "height"]) {
+        if (rendition[key] === undefined) issues.push(`${path}.${key}: is required`);
+        checkNumber(rendition, key, path, issues, 1);
+    }
+}
+
+function checkFocalPoint(object: Json, path: string, issues: Issues) {
+    const value = object.focalPoint;
+    if (value === undefined) return;
+
+    const isKeyframes = Array.isArray(value);
+    const points = isKeyframes ? value : [value];
+    points.forEach((point, i) => {
+        const pointPath = isKeyframes ? `${path}.focalPoint[${i}]` : `${path}.focalPoint`;
+        if (!isObject(point)) {
+            issues.push(`${pointPath}: expected an object, got ${describe(point)}`);
+            return;
+        }
+        checkUnknownKeys(point, pointPath, issues, isKeyframes ? ["x", "y", "time"] : ["x", "y"]);
+        for (const key of isKeyframes ? ["x", "y", "time"] : ["x", "y"]) {
+            if (point[key] === undefined) issues.push(`${pointPath}.${key}: is required`);
+            checkNumber(point, key, pointPath, issues);
+        }
+        for (const key of ["x", "y"]) {
+            if (typeof point[key] === "number" && point[key] > 1) {
+                issues.push(`${pointPath}.${key}: expected a number from 0 to 1, got ${point[key]}`);
+            }
+        }
+    });
+}
+
+function checkArtDirection(entry: unknown, path: string, issues: Issues) {
+    if (!isObject(entry)) {
+        issues.push(`${path}: expected an object, got ${describe(entry)}`);
+        return;
+    }
+    checkUnknownKeys(entry, path, issues, ["media", "video", "renditions", "fit", "focalPoint"]);
+    checkString(entry, "media", path, issues, true);
+    checkString(entry, "video", path, issues, false);
+    checkArray(entry, "renditions", path, issues)
+        .forEach((rendition, i) => checkRendition(rendition, `${path}.renditions[${i}]`, issues));
+    checkOneOf(entry, "fit", path, issues, FITS);
+    checkFocalPoint(entry, path, issues);
+}
+
+function checkEffectValue(object: Json, key: string, path: string, issues: Issues) {
+    const value = object[key];
+    if (value === undefined || typeof value === "number") return;
+
+    const isKeyframe = (keyframe: unknown) => isObject(keyframe)
+        && typeof keyframe.progress === "number" && keyframe.progress >= 0 && keyframe.progress <= 1
+        && typeof keyframe.value === "number";
+    if (!Array.isArray(value) || !value.length || !value.every(isKeyframe)) {
+        issues.push(`${path}.${key}: expected a number or a list of { progress, value } keyframes, got ${describe(value)}`);
+    }
+}
+
+function checkEffect(effect: unknown, path: string, issues: Issues) {
+    if (!isObject(effect)) {
+        issues.push(`${path}: expected an object, got ${describe(effect)}`);
+        return;
+    }
+    const spec = EFFECT_PARAMS[effect.type as string];
+    if (!spec) {
+        const types = Object.keys(EFFECT_PARAMS).map((t) => `"${t}"`).join(", ");
+        issues.push(`${path}.type: expected one of ${types}, got ${describe(effect.type)}`);
+        return;
+    }
+
+    const textKeys = effect.type === "text-mask" ? ["text", "font"] : [];
+    checkUnknownKeys(effect, path, issues, ["type", ...spec.params, ...textKeys]);
+    spec.params.forEach((key) => checkEffectValue(effect, key, path, issues));
+    spec.required.forEach((key) => {
+        if (effect[key] === undefined) issues.push(`${path}.${key}: is required`);
+    });
+    if (effect.type === "text-mask") {
+        checkString(effect, "text", path, issues, true);
+        checkString(effect, "font", path, issues, false);
+    }
+}
+
+function checkSoundtrack(object: Json, path: string, issues: Issues) {
+    const soundtrack = object.soundtrack;
+    if (soundtrack === undefined || typeof soundtrack === "boolean") return;
+    const soundtrackPath = `${path}.soundtrack`;
+    if (!isObject(soundtrack)) {
+        issues.push(`${soundtrackPath}: expected true, false or an object, got ${describe(soundtrack)}`);
+        return;
+    }
+    checkUnknownKeys(soundtrack, soundtrackPath, issues, ["src", "mode", "volume", "lowpass", "fade"]);
+    checkString(soundtrack, "src", soundtrackPath, issues, false);
+    checkOneOf(soundtrack, "mode", soundtrackPath, issues, SOUNDTRACK_MODES);
+    checkEffectValue(soundtrack, "volume", soundtrackPath, issues);
+    checkEffectValue(soundtrack, "lowpass", soundtrackPath, issues);
+    checkNumber(soundtrack, "fade", soundtrackPath, issues);
+}
+
+function checkChapter(chapter: unknown, path: string, issues: Issues) {
+    if (!isObject(chapter)) {
+        issues.push(`${path}: expected an object, got ${describe(chapter)}`);
+        return;
+    }
+    checkUnknownKeys(chapter, path, issues, ["id", "time", "title"]);
+    checkString(chapter, "id", path, issues, true);
+    checkString(chapter, "title", path, issues, false);
+    if (chapter.time === undefined) issues.push(`${path}.time: is required`);
+    checkNumber(chapter, "time", path, issues);
+
+    if (typeof chapter.id === "string" && !/^[\w-]+$/.test(chapter.id)) {
+        issues.push(`${path}.id: expected letters, digits, "-" or "_" only, got ${describe(chapter.id)}`);
+    }
+}
+
+function checkCaption(caption: unknown, path: string, issues: Issues) {
+    if (!isObject(caption)) {
+        issues.push(`${path}: expected an object, got ${describe(caption)}`);
+        return;
+    }
+    checkUnknownKeys(caption, path, issues, ["text", "start", "end", "fade", "style"]);
+    checkString(caption, "text", path, issues, true);
+    checkNumber(caption, "start", path, issues);
+    checkNumber(caption, "end", path, issues);
+    checkOneOf(caption, "style", path, issues, CAPTION_STYLES);
+
+    const { start, end, fade } = caption;
+    if (typeof start === "number" && typeof end === "number" && end < start) {
+        issues.push(`${path}.end: must not be before start (${start})`);
+    }
+    const fades = Array.isArray(fade) ? fade : [fade];
+    const isPair = !Array.isArray(fade) || fade.length === 2;
+    if (fade !== undefined && (!isPair || fades.some((f) => typeof f !== "number" || f < 0))) {
+        issues.push(`${path}.fade: expected a number of seconds or a [fade in, fade out] pair, got ${describe(fade)}`);
+    }
+}
+
+function checkSection(section: unknown, path: string, issues: Issues) {
+    if (!isObject(section)) {
+        issues.push(`${path}: expected an object, got ${describe(section)}`);
+        return;
+    }
+    if (!SECTION_TYPES.includes(section.type as string)) {
+        issues.push(`${path}.type: expected one of ${SECTION_TYPES.map((t) => `"${t}"`).join(", ")}, got ${describe(section.type)}`);
+        return;
+    }
+
+    switch (section.type) {
+        case "scrolly-video":
+            checkUnknownKeys(section, path, issues, [
+                "type", "video", "alt", "poster", "maxFrames", "quality", "renditions", "blend",
+                "fit", "focalPoint", "artDirection", "effects", "soundtrack", "chapters", "snap", "captions", "cards",
+            ]);
+            checkString(section, "video", path, issues, true);
+            checkString(section, "alt", path, issues, false);
+            checkString(section, "poster", path, issues, false);
+            checkNumber(section, "maxFrames", path, issues, 1);
+            checkOneOf(section, "quality", path, issues, QUALITIES);
+            checkArray(section, "renditions", path, issues)
+                .forEach((rendition, i) => checkRendition(rendition, `${path}.renditions[${i}]`, issues));
+            checkOneOf(section, "blend", path, issues, BLEND_MODES);
+            checkOneOf(section, "fit", path, issues, FITS);
+            checkFocalPoint(section, path, issues);
+            checkArray(section, "artDirection", path, issues)
+                .forEach((entry, i) => checkArtDirection(entry, `${path}.artDirection[${i}]`, issues));
+            checkArray(section, "effects", path, issues)
+                .forEach((effect, i) => checkEffect(effect, `${path}.effects[${i}]`, issues));
+            checkSoundtrack(section, path, issues);
+            if (section.snap !== undefined && typeof section.snap !== "boolean") {
+                issues.push(`${path}.snap: expected true or false, got ${describe(section.snap)}`);
+            }
+            checkArray(section, "chapters", path, issues)
+                .forEach((chapter, i) => checkChapter(chapter, `${path}.chapters[${i}]`, issues));
+            checkArray(section, "captions", path, issues)
+                .forEach((caption, i) => checkCaption(caption, `${path}.captions[${i}]`, issues));
+            checkArray(section, "cards", path, issues)
+                .forEach((card, i) => checkCard(card, `${path}.cards[${i}]`, issues));
+            break;
+
+        case "info-card":
+            checkCard(section, path, issues, ["type"]);
+            break;
+
+        case "color": {
+            checkUnknownKeys(section, path, issues, ["type", "title", "body", "colors"]);
+            checkString(section, "title", path, issues, true);
+            checkString(section, "body", path, issues, false);
+
+            const colors = checkArray(section, "colors", path, issues);
+            if (section.colors === undefined) {
+                issues.push(`${path}.colors: is required`);
+            } else if (Array.isArray(section.colors) && colors.length < 2) {
+                issues.push(`${path}.colors: expected at least 2 colors, got ${colors.length}`);
+            }
+            colors.forEach((color, i) => {
+                if (typeof color !== "string" || !CSS_COLOR.test(color.trim())) {
+                    issues.push(`${path}.colors[${i}]: expected a CSS color, gradient or url(), got ${describe(color)}`);
+                }
+            });
+            break;
+        }
+    }
+}
+
+/**
+ * Checks that `data` (parsed JSON) is a valid Story and returns it typed.
+ * Throws a StoryValidationError listing every problem otherwise.
+ */
+export function validateStory(data: unknown): Story {
+    const issues: Issues = [];
+
+    if (!isObject(data)) {
+        throw new StoryValidationError([`story: expected an object, got ${describe(data)}`]);
+    }
+
+    checkUnknownKeys(data, "story", issues, ["title", "description", "image", "sections"]);
+    checkString(data, "title", "story", issues, true);
+    checkString(data, "description", "story", issues, false);
+    checkString(data, "image", "story", issues, false);
+
+    const sections = checkArray(data, "sections", "story", issues);
+    if (data.sections === undefined) issues.push("story.sections: is required");
+    sections.forEach((section, i) => checkSection(section, `sections[${i}]`, issues));
+
+    if (issues.length) throw new StoryValidationError(issues);
+    return data as unknown as Story;
+}
+
+/**
+ * Returns true for media paths that should be bundled rather than used as URLs.
+ */
+export function isBundledMediaPath(path: string): boolean {
+    return path.startsWith("./") || path.startsWith("../") || path.startsWith("@/");
+}
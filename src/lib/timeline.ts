@@ -0,0 +1,99 @@
+import { MotionValue } from "motion/react";
+import { createContext } from "react";
+
+/**
+ * Shared state between ScrollyTimeline, the ScrollyVideo inside it and its
+ * cues. Cues are declared in video time (or frame numbers), and converted to
+ * scroll progress through the same frame list ScrollyVideo draws from, so an
+ * overlay shows exactly while its frames are on screen.
+ */
+export interface ScrollyTimelineContextValue {
+    /**
+     * How far (0-1) through the video the timeline's scroll position is, after
+     * its direction is applied; the same value ScrollyVideo maps onto its frames.
+     */
+    progress: MotionValue<number>;
+
+    /**
+     * Timestamps (in seconds) of the frames ScrollyVideo draws, in order.
+     * Empty until the video's metadata (or frame manifest) is known.
+     */
+    frameTimes: number[];
+
+    setFrameTimes: (frameTimes: number[]) => void;
+}
+
+export const ScrollyTimelineContext = createContext<ScrollyTimelineContextValue | null>(null);
+
+/**
+ * Returns the scroll progress (0-1) at which ScrollyVideo shows `frame`.
+ */
+export function frameToProgress(frameCount: number, frame: number): number {
+    if (frameCount <= 1) return 0;
+    return Math.min(1, Math.max(0, frame / (frameCount - 1)));
+}
+
+/**
+ * Returns the scroll progress (0-1) at which ScrollyVideo shows the video at
+ * `time` seconds, interpolating between the two frames around it.
+ */
+export function timeToProgress(frameTimes: number[], time: number): number {
+    const count = frameTimes.length;
+    if (count <= 1 || time <= frameTimes[0]) return 0;
+    if (time >= frameTimes[count - 1]) return 1;
+
+    // Find the last frame at or before `time`
+    let low = 0;
+    let high = count - 1;
+    while (high - low > 1) {
+        const mid = (low + high) >> 1;
+        if (frameTimes[mid] <= time) low = mid;
+        else high = mid;
+    }
+
+    const position = low + (time - frameTimes[low]) / (frameTimes[high] - frameTimes[low]);
+    return frameToProgress(count, position);
+}
+
+/**
+ * Returns the video time (in seconds) shown at scroll progress `progress`
+ * (0-1), interpolating between the two frames around it.
+ */
+export function progressToTime(frameTimes: number[], progress: number): number {
+    const count = frameTimes.length;
+    if (!count) return 0;
+
+    const position = Math.min(1, Math.max(0, progress)) * (count - 1);
+    const low = Math.floor(position);
+    const high = Math.min(count - 1, low + 1);
+    return frameTimes[low] + (frameTimes[high] - frameTimes[low]) * (position - low);
+}
+
+/**
+ * A cue's span in scroll progress. The cue fades in between `start` and
+ * `fadeInEnd`, and out between `fadeOutStart` and `end`.
+ */
+export interface CueRange {
+    start: number;
+    fadeInEnd: number;
+    fadeOutStart: number;
+    end: number;
+}
+
+/**
+ * Returns how visible (0-1) a cue is at the given scroll progress.
+ */
+export function getCueOpacity(progress: number, { start, fadeInEnd, fadeOutStart, end }: CueRange): number {
+    if (progress < start || progress > end) return 0;
+    if (progress < fadeInEnd) return (progress - start) / (fadeInEnd - start);
+    if (progress > fadeOutStart) return (end - progress) / (end - fadeOutStart);
+    return 1;
+}
+
+/**
+ * Returns how far (0-1) the scroll progress is through a cue's span.
+ */
+export function getCueProgress(progress: number, { start, end }: CueRange): number {
+    if (end <= start) return progress < start ? 0 : 1;
+    return Math.min(1, Math.max(0, (progress - start) / (end - start)));
+}
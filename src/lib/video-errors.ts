@@ -0,0 +1,128 @@
+/**
+ * Typed failures for frame extraction, plus the timeout and retry helpers
+ * each step runs under. Kept free of React so workers can use it too.
+ *
+ * In development, the /error-<kind>/ stories make each kind happen on purpose
+ * (see plugins/error-fixtures.ts).
+ */
+
+/**
+ * What went wrong:
+ * - "network": the video (or a frame) couldn't be downloaded
+ * - "decode": the file downloaded but frames couldn't be decoded
+ * - "unsupported": the browser can't handle the file's container or codec
+ * - "timeout": a step (metadata, a seek, a request) took too long
+ */
+export type ScrollyVideoErrorKind = "network" | "decode" | "unsupported" | "timeout";
+
+/**
+ * How long a single step may take before it fails with a "timeout" (ms).
+ */
+export const DEFAULT_STEP_TIMEOUT = 10_000;
+
+/**
+ * How many times a step that failed with a "network" or "timeout" error is retried.
+ */
+export const DEFAULT_RETRIES = 2;
+
+export class ScrollyVideoError extends Error {
+    kind: ScrollyVideoErrorKind;
+
+    /** The underlying error, if any. */
+    cause?: unknown;
+
+    constructor(kind: ScrollyVideoErrorKind, message: string, cause?: unknown) {
+        super(message);
+        this.name = "ScrollyVideoError";
+        this.kind = kind;
+        this.cause = cause;
+    }
+}
+
+/**
+ * Whether an error is worth retrying: the same step may well succeed again.
+ */
+export function isRetryable(error: unknown): boolean {
+    return error instanceof ScrollyVideoError && (error.kind === "network" || error.kind === "timeout");
+}
+
+/**
+ * Maps a <video> element's MediaError onto our error kinds.
+ */
+export function fromMediaError(error: MediaError): ScrollyVideoError {
+    const message = error.message || "The video could not be loaded";
+    switch (error.code) {
+        case MediaError.MEDIA_ERR_NETWORK:
+            return new ScrollyVideoError("network", message, error);
+        case MediaError.MEDIA_ERR_SRC_NOT_SUPPORTED:
+            return new ScrollyVideoError("unsupported", message, error);
+        default:
+            return new ScrollyVideoError("decode", message, error);
+    }
+}
+
+/**
+ * Wraps any error thrown during extraction in a ScrollyVideoError, guessing
+ * its kind from its type. Unknown errors are assumed to be `kind`.
+ */
+export function toScrollyVideoError(error: unknown, kind: ScrollyVideoErrorKind = "decode"): ScrollyVideoError {
+    if (error instanceof ScrollyVideoError) return error;
+    const message = error instanceof Error ? error.message : String(error);
+
+    // fetch() rejects with a TypeError when the request never completes
+    if (error instanceof TypeError) return new ScrollyVideoError("network", message, error);
+    if (error instanceof DOMException) {
+        if (error.name === "NotSupportedError") return new ScrollyVideoError("unsupported", message, error);
+        if (error.name === "EncodingError") return new ScrollyVideoError("decode", message, error);
+        if (error.name === "TimeoutError") return new ScrollyVideoError("timeout", message, error);
+        if (error.name === "NetworkError") return new ScrollyVideoError("network", message, error);
+    }
+    return new ScrollyVideoError(kind, message, error);
+}
+
+/**
+ * Fetches `url`, failing with a "timeout" if no response arrives within
+ * `timeout` ms and with a "network" error for failed requests or HTTP errors.
+ * Only waiting for the response is timed, not downloading the body.
+ */
+export async function fetchWithTimeout(url: string, timeout: number, signal?: AbortSignal): Promise<Response> {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+    const timer = setTimeout(() => controller.abort(), timeout);
+
+    try {
+        const resp = await fetch(url, { signal: controller.signal });
+        if (!resp.ok) throw new ScrollyVideoError("network", `Failed to fetch ${url} (HTTP ${resp.status})`);
+        return resp;
+    } catch (error) {
+        if (signal?.aborted) throw error;
+        if (controller.signal.aborted) {
+            throw new ScrollyVideoError("timeout", `Timed out after ${timeout}ms fetching ${url}`, error);
+        }
+        throw toScrollyVideoError(error, "network");
+    } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+    }
+}
+
+/**
+ * Runs `step`, retrying up to `retries` more times (with a growing delay) if
+ * it fails with a retryable error. `step` gets the attempt number, from 0.
+ */
+export async function withRetry<T>(
+    step: (attempt: number) => Promise<T>,
+    retries: number,
+    signal?: AbortSignal
+): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await step(attempt);
+        } catch (error) {
+            if (signal?.aborted || attempt >= retries || !isRetryable(error)) throw error;
+            console.warn(`Retrying after ${(error as Error).message}`);
+            await new Promise((resolve) => setTimeout(resolve, 500 * 2 ** attempt));
+        }
+    }
+}
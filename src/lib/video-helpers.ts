@@ -1,102 +1,450 @@
-// import LibAV from "@libav.js/variant-default";
-
-// export async function demuxVideoWithLibav(url: string) {
-//     // 1) Fetch file
-//     const fileName = url.split("/").pop()?.replace(/\?.*$/, "") ?? "video.mp4";
-//     const resp = await fetch(url);
-//     if (!resp.ok) throw new Error(`Failed to fetch ${url}`);
-//     const buf = await resp.arrayBuffer();
-
-//     // 2) Initialize LibAV
-//     //    Using "LibAV({})" if your version doesn't need "LibAV.LibAV()"
-//     const libav = await LibAV.LibAV({});
-
-//     // Write the file into libav's in-memory FS
-//     await libav.writeFile(fileName, new Uint8Array(buf));
-
-//     // 3) Open demuxer (use filename in the VFS)
-//     const [fmt_ctx, streams] = await libav.ff_init_demuxer_file(fileName);
-
-//     // (Optional but recommended) Gather stream info
-//     // so extradata is more likely to be populated.
-//     await libav.avformat_find_stream_info(fmt_ctx, 0);
-
-//     // 4) Find the video stream index
-//     let videoStreamIndex = -1;
-//     for (let i = 0; i < streams.length; i++) {
-//         if (streams[i].codec_type === libav.AVMEDIA_TYPE_VIDEO) {
-//             videoStreamIndex = i;
-//             break;
-//         }
-//     }
-//     if (videoStreamIndex < 0) {
-//         throw new Error("No video track found");
-//     }
-
-//     // 5) Identify codec
-//     const videoStream = streams[videoStreamIndex];
-//     const codecName = await libav.avcodec_get_name(videoStream.codec_id);
-
-//     // 6) Extract extradata from the video stream
-//     const streamPtr = videoStream.ptr;
-//     const codecpar = await libav.avcodec_parameters_alloc();
-//     await libav.avcodec_parameters_copy(
-//         codecpar,
-//         await libav.AVStream_codecpar(streamPtr)
-//     );
-
-//     const extradataPtr = await libav.AVCodecParameters_extradata(codecpar);
-//     const extradataSize = await libav.AVCodecParameters_extradata_size(codecpar);
-
-//     let extradata: Uint8Array | null = null;
-//     if (extradataPtr && extradataSize > 0) {
-//         extradata = await libav.copyout_u8(extradataPtr, extradataSize);
-//     }
-
-//     await libav.avcodec_parameters_free(codecpar);
-
-//     // 7) Read packets in a loop
-//     const packets: Array<{
-//         data: Uint8Array;
-//         pts: number;
-//         dts: number;
-//         isKey: boolean;
-//     }> = [];
-
-//     const pkt = await libav.av_packet_alloc();
-//     while (true) {
-//         const ret = await libav.av_read_frame(fmt_ctx, pkt);
-//         if (ret < 0) {
-//             // < 0 => EOF or error
-//             break;
-//         }
-
-//         const streamIndex = await libav.AVPacket_stream_index(pkt);
-//         if (streamIndex === videoStreamIndex) {
-//             const size = await libav.AVPacket_size(pkt);
-//             const dataPtr = await libav.AVPacket_data(pkt);
-
-//             // Copy packet bytes to JS
-//             const packetData = await libav.copyout_u8(dataPtr, size);
-
-//             const dts = await libav.AVPacket_dts(pkt);
-//             const pts = await libav.AVPacket_pts(pkt);
-
-//             const flags = await libav.AVPacket_flags(pkt);
-//             const isKey = (flags & libav.AV_PKT_FLAG_KEY) !== 0;
-
-//             packets.push({ data: packetData, pts, dts, isKey });
-//         }
-//         await libav.av_packet_unref(pkt);
-//     }
-
-//     // 8) Cleanup
-//     await libav.av_packet_free(pkt);
-//     // Pass [fmt_ctx] array for pointer-to-pointer
-//     await libav.avformat_close_input_js(fmt_ctx);
-
-//     // Sort packets by PTS in ascending order
-//     packets.sort((a, b) => a.pts - b.pts);
-
-//     return { packets, extradata, codecName };
-// }
\ No newline at end of file
+import { FrameManifest } from "@/lib/frame-manifest";
+import { coarseToFineOrder, fitDimensions, sampleFrameTimes } from "@/lib/frame-sampling";
+import {
+    DEFAULT_RETRIES,
+    DEFAULT_STEP_TIMEOUT,
+    fetchWithTimeout,
+    fromMediaError,
+    ScrollyVideoError,
+    toScrollyVideoError,
+    withRetry,
+} from "@/lib/video-errors";
+import { demuxWebM } from "@/lib/webm-demuxer";
+
+export interface FrameExtractionOptions {
+    /** The maximum width (in pixels) to which extracted frames will be scaled. */
+    maxWidth: number;
+    /** The maximum height (in pixels) to which extracted frames will be scaled. */
+    maxHeight: number;
+    /** The maximum number of frames to extract. */
+    maxFrames: number;
+    /** The base frames-per-second to assume when slicing frames from the video. */
+    baseFps: number;
+    /** Aborting stops extraction and closes any bitmaps created so far. */
+    signal?: AbortSignal;
+    /** How long (ms) each step (a request, metadata, a seek) may take. Defaults to DEFAULT_STEP_TIMEOUT. */
+    timeout?: number;
+    /** How many times a step that timed out or hit a network error is retried. Defaults to DEFAULT_RETRIES. */
+    retries?: number;
+    /** Fired as frames are extracted (0-99; callers report 100 themselves). */
+    onProgress?: (progress: number) => void;
+    /**
+     * Fired as soon as each frame is ready, possibly out of order, so callers
+     * can show frames before extraction finishes. `total` is the final length
+     * of the frame array. The bitmap is the same one returned at the end.
+     */
+    onFrame?: (index: number, bitmap: ImageBitmap, total: number) => void;
+    /**
+     * Downscales a full-size frame grabbed from the <video>. Lets the seek
+     * path hand scaling to a worker instead of a main-thread canvas.
+     */
+    scaleFrame?: (frame: ImageBitmap, width: number, height: number) => Promise<ImageBitmap>;
+}
+
+/**
+ * Returns true if the browser exposes the WebCodecs APIs we need to decode
+ * frames without a <video> element.
+ */
+export function isWebCodecsSupported(): boolean {
+    return typeof VideoDecoder !== "undefined" && typeof EncodedVideoChunk !== "undefined";
+}
+
+function throwIfAborted(signal?: AbortSignal) {
+    if (signal?.aborted) {
+        throw new DOMException("Frame extraction was aborted", "AbortError");
+    }
+}
+
+/**
+ * Resolves once the given event fires on the target. Rejects if the signal
+ * aborts first, with a "timeout" error if `timeout` (ms) passes first, or
+ * with the element's error if the target is a media element that fails.
+ */
+function waitForEvent(target: EventTarget, type: string, signal?: AbortSignal, timeout?: number) {
+    return new Promise<void>((resolve, reject) => {
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const cleanup = () => {
+            clearTimeout(timer);
+            target.removeEventListener(type, onEvent);
+            target.removeEventListener("error", onError);
+            signal?.removeEventListener("abort", onAbort);
+        };
+        const onAbort = () => {
+            cleanup();
+            reject(new DOMException("Frame extraction was aborted", "AbortError"));
+        };
+        const onEvent = () => {
+            cleanup();
+            resolve();
+        };
+        const onError = () => {
+            cleanup();
+            const error = (target as HTMLMediaElement).error;
+            reject(error ? fromMediaError(error) : new ScrollyVideoError("network", "The video could not be loaded"));
+        };
+
+        target.addEventListener(type, onEvent, { once: true });
+        signal?.addEventListener("abort", onAbort, { once: true });
+        // Workers have no media elements
+        if (typeof HTMLMediaElement !== "undefined" && target instanceof HTMLMediaElement) {
+            target.addEventListener("error", onError, { once: true });
+        }
+        if (timeout != null) {
+            timer = setTimeout(() => {
+                cleanup();
+                reject(new ScrollyVideoError("timeout", `Timed out after ${timeout}ms waiting for "${type}"`));
+            }, timeout);
+        }
+    });
+}
+
+/**
+ * Resolves once `decoder` has taken chunks off its queue. Browsers without
+ * the "dequeue" event (older Chromium, some Safari builds) are polled instead.
+ */
+async function waitForDequeue(decoder: VideoDecoder, signal?: AbortSignal, timeout?: number) {
+    // The typings assume the event exists; browsers that have it default the handler to null
+    if (decoder.ondequeue !== undefined) return waitForEvent(decoder, "dequeue", signal, timeout);
+
+    const queued = decoder.decodeQueueSize;
+    const start = performance.now();
+    while (decoder.decodeQueueSize >= queued && decoder.state === "configured") {
+        throwIfAborted(signal);
+        if (timeout != null && performance.now() - start > timeout) {
+            throw new ScrollyVideoError("timeout", `Timed out after ${timeout}ms waiting for the decoder`);
+        }
+        await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+}
+
+/**
+ * Extracts frames by seeking a <video> element one frame at a time and
+ * drawing each into a temp canvas (or handing it to `scaleFrame`). Slow, but
+ * works everywhere. Frames are seeked coarse-to-fine, so the returned array
+ * may have holes where a frame failed to decode.
+ */
+export async function extractFramesBySeeking(
+    videoEl: HTMLVideoElement,
+    {
+        maxWidth,
+        maxHeight,
+        maxFrames,
+        baseFps,
+        signal,
+        timeout = DEFAULT_STEP_TIMEOUT,
+        retries = DEFAULT_RETRIES,
+        onProgress,
+        onFrame,
+        scaleFrame,
+    }: FrameExtractionOptions
+): Promise<ImageBitmap[]> {
+    let frameArray: ImageBitmap[] = [];
+
+    // Offscreen canvas for drawing frames, unless scaling happens elsewhere
+    const tempCanvas = scaleFrame ? null : document.createElement("canvas");
+    const ctx = tempCanvas?.getContext("2d");
+    if (tempCanvas && !ctx) throw new Error("Could not create a 2D context for frame extraction");
+
+    try {
+        // 1) Wait for metadata if not ready, reloading the element on a retry
+        await withRetry(async (attempt) => {
+            if (attempt > 0) videoEl.load();
+            else if (videoEl.error) throw fromMediaError(videoEl.error);
+            if (videoEl.readyState < 1) {
+                await waitForEvent(videoEl, "loadedmetadata", signal, timeout);
+            }
+        }, retries, signal);
+
+        // 2) Attempt a brief play on iOS to unlock decoding
+        try {
+            videoEl.muted = true;
+            videoEl.playsInline = true; // also ensure <video playsInline> in JSX
+            await videoEl.play();
+            // Let it play for ~200ms
+            await new Promise((resolve) => setTimeout(resolve, 200));
+            videoEl.pause();
+        } catch (err) {
+            console.warn("Could not auto-play to unlock decoding:", err);
+        }
+
+        // 3) Determine scaled extraction dimensions
+        const { width: targetWidth, height: targetHeight } = fitDimensions(
+            videoEl.videoWidth,
+            videoEl.videoHeight,
+            maxWidth,
+            maxHeight
+        );
+        if (tempCanvas) {
+            tempCanvas.width = targetWidth;
+            tempCanvas.height = targetHeight;
+        }
+
+        // 4) Calculate which frames to extract, spreading the first ones across the timeline
+        const seekTimes = sampleFrameTimes(videoEl.duration, baseFps, maxFrames);
+        frameArray = new Array(seekTimes.length);
+        let extracted = 0;
+        let lastError: unknown;
+
+        // 5) Loop over frames
+        for (const index of coarseToFineOrder(seekTimes.length)) {
+            throwIfAborted(signal);
+
+            // 5a) Seek to the correct time and wait for "seeked", seeking again on a retry
+            await withRetry(async () => {
+                const seeked = waitForEvent(videoEl, "seeked", signal, timeout);
+                videoEl.currentTime = seekTimes[index];
+                await seeked;
+            }, retries, signal);
+
+            // 5b) Wait until enough data is buffered to draw
+            while (videoEl.readyState < HTMLMediaElement.HAVE_FUTURE_DATA) {
+                // canplay or canplaythrough -> indicates enough data to play forward
+                await waitForEvent(videoEl, "canplay", signal, timeout);
+            }
+
+            // 5c) Convert to a scaled ImageBitmap
+            try {
+                let bitmap: ImageBitmap;
+                if (scaleFrame) {
+                    bitmap = await scaleFrame(await createImageBitmap(videoEl), targetWidth, targetHeight);
+                } else {
+                    ctx!.drawImage(videoEl, 0, 0, targetWidth, targetHeight);
+                    bitmap = await createImageBitmap(tempCanvas!);
+                }
+                frameArray[index] = bitmap;
+                onFrame?.(index, bitmap, seekTimes.length);
+
+                // 5d) Update progress
+                const progress = Math.floor((++extracted / seekTimes.length) * 100);
+                if (progress < 100) onProgress?.(progress);
+            } catch (err) {
+                console.error("Failed to create ImageBitmap", err);
+                lastError = err;
+            }
+        }
+
+        throwIfAborted(signal);
+
+        // A few holes are fine, but with no frames at all there's nothing to show
+        if (!extracted) {
+            throw new ScrollyVideoError("decode", "No frame of the video could be decoded", lastError);
+        }
+        return frameArray;
+    } catch (error) {
+        frameArray.forEach((bitmap) => bitmap.close());
+        throw error;
+    }
+}
+
+/**
+ * Extracts frames by fetching and demuxing the file ourselves, then decoding
+ * the packets straight into ImageBitmaps with WebCodecs' `VideoDecoder`.
+ * Decoding has to run in timeline order, so frames arrive in order too (but
+ * quickly). Only WebM is supported; callers should fall back to
+ * `extractFramesBySeeking` if this throws.
+ */
+export async function extractFramesWithWebCodecs(
+    url: string,
+    {
+        maxWidth,
+        maxHeight,
+        maxFrames,
+        baseFps,
+        signal,
+        timeout = DEFAULT_STEP_TIMEOUT,
+        retries = DEFAULT_RETRIES,
+        onProgress,
+        onFrame,
+    }: FrameExtractionOptions
+): Promise<ImageBitmap[]> {
+    if (!isWebCodecsSupported()) {
+        throw new ScrollyVideoError("unsupported", "WebCodecs is not supported in this browser");
+    }
+
+    // 1) Fetch and demux the file
+    const data = await withRetry(async () => {
+        const resp = await fetchWithTimeout(url, timeout, signal);
+        try {
+            return await resp.arrayBuffer();
+        } catch (err) {
+            if (signal?.aborted) throw err;
+            throw toScrollyVideoError(err, "network");
+        }
+    }, retries, signal);
+
+    let demuxed: ReturnType<typeof demuxWebM>;
+    try {
+        demuxed = demuxWebM(data);
+    } catch (err) {
+        throw new ScrollyVideoError("unsupported", `Could not read ${url} as WebM: ${(err as Error).message}`, err);
+    }
+
+    // 2) Make sure the browser can decode this stream
+    const config: VideoDecoderConfig = {
+        codec: demuxed.codec,
+        codedWidth: demuxed.width,
+        codedHeight: demuxed.height,
+        description: demuxed.description,
+    };
+    const support = await VideoDecoder.isConfigSupported(config);
+    if (!support.supported) {
+        throw new ScrollyVideoError("unsupported", `VideoDecoder does not support ${demuxed.codec}`);
+    }
+
+    // 3) Determine scaled extraction dimensions and the timestamps to keep
+    const { width: resizeWidth, height: resizeHeight } = fitDimensions(
+        demuxed.width,
+        demuxed.height,
+        maxWidth,
+        maxHeight
+    );
+    const targets = sampleFrameTimes(demuxed.duration, baseFps, maxFrames).map((t) => t * 1e6);
+    const tolerance = 1e6 / baseFps / 2;
+
+    // 4) Decode every packet, keeping the frames closest to each target timestamp
+    const pending: Promise<ImageBitmap>[] = [];
+    let nextTarget = 0;
+    let decodeError: unknown;
+
+    const decoder = new VideoDecoder({
+        output: (frame) => {
+            const conversions: Promise<ImageBitmap>[] = [];
+            // A single decoded frame can satisfy several targets if the video's
+            // real frame rate is lower than baseFps
+            while (nextTarget < targets.length && frame.timestamp + tolerance >= targets[nextTarget]) {
+                const index = nextTarget++;
+                conversions.push(
+                    createImageBitmap(frame, { resizeWidth, resizeHeight, resizeQuality: "high" })
+                        .then((bitmap) => {
+                            onFrame?.(index, bitmap, targets.length);
+                            return bitmap;
+                        })
+                );
+            }
+
+            pending.push(...conversions);
+            Promise.allSettled(conversions).finally(() => frame.close());
+
+            const progress = Math.floor((nextTarget / targets.length) * 100);
+            if (conversions.length && progress < 100) onProgress?.(progress);
+        },
+        error: (err) => {
+            decodeError = new ScrollyVideoError("decode", err.message, err);
+        },
+    });
+
+    try {
+        decoder.configure(config);
+
+        for (const packet of demuxed.packets) {
+            throwIfAborted(signal);
+            if (decodeError) throw decodeError;
+            if (nextTarget >= targets.length) break;
+
+            // Don't let the decode queue grow unbounded; wait for it to drain a bit
+            while (decoder.decodeQueueSize > 8) {
+                await waitForDequeue(decoder, signal, timeout);
+            }
+
+            decoder.decode(new EncodedVideoChunk({
+                type: packet.isKey ? "key" : "delta",
+                timestamp: packet.timestamp,
+                data: packet.data,
+            }));
+        }
+
+        await decoder.flush();
+        if (decodeError) throw decodeError;
+        throwIfAborted(signal);
+
+        try {
+            return await Promise.all(pending);
+        } catch (err) {
+            throw toScrollyVideoError(err, "decode");
+        }
+    } catch (error) {
+        const settled = await Promise.allSettled(pending);
+        settled.forEach((result) => {
+            if (result.status === "fulfilled") result.value.close();
+        });
+        throw error;
+    } finally {
+        if (decoder.state !== "closed") decoder.close();
+    }
+}
+
+/**
+ * Downloads a frame sequence pre-extracted at build time (see FrameManifest),
+ * a few images at a time in coarse-to-fine order, and decodes each into an
+ * ImageBitmap. Frames larger than maxWidth/maxHeight are scaled down; the
+ * sampling options don't apply since the plugin already picked the frames.
+ */
+export async function loadFramesFromManifest(
+    manifest: FrameManifest,
+    {
+        maxWidth,
+        maxHeight,
+        signal,
+        timeout = DEFAULT_STEP_TIMEOUT,
+        retries = DEFAULT_RETRIES,
+        onProgress,
+        onFrame,
+    }: FrameExtractionOptions,
+    concurrency = 4
+): Promise<ImageBitmap[]> {
+    const { width: resizeWidth, height: resizeHeight } = fitDimensions(
+        manifest.width,
+        manifest.height,
+        maxWidth,
+        maxHeight
+    );
+    const resize = resizeWidth < manifest.width
+        ? { resizeWidth, resizeHeight, resizeQuality: "high" as const }
+        : {};
+
+    const frameArray: ImageBitmap[] = new Array(manifest.frames.length);
+    const order = coarseToFineOrder(manifest.frames.length);
+    let loaded = 0;
+    let next = 0;
+
+    async function loadNext(): Promise<void> {
+        while (next < order.length) {
+            const index = order[next++];
+            const blob = await withRetry(async () => {
+                const resp = await fetchWithTimeout(manifest.frames[index].src, timeout, signal);
+                try {
+                    return await resp.blob();
+                } catch (err) {
+                    if (signal?.aborted) throw err;
+                    throw toScrollyVideoError(err, "network");
+                }
+            }, retries, signal);
+
+            let bitmap: ImageBitmap;
+            try {
+                bitmap = await createImageBitmap(blob, resize);
+            } catch (err) {
+                throw toScrollyVideoError(err, "decode");
+            }
+            frameArray[index] = bitmap;
+            onFrame?.(index, bitmap, manifest.frames.length);
+            loaded++;
+
+            const progress = Math.floor((loaded / manifest.frames.length) * 100);
+            if (progress < 100) onProgress?.(progress);
+        }
+    }
+
+    const loaders = Array.from({ length: concurrency }, loadNext);
+    try {
+        await Promise.all(loaders);
+        throwIfAborted(signal);
+        return frameArray;
+    } catch (error) {
+        // Stop handing out frames and let in-flight ones settle, so nothing leaks
+        next = order.length;
+        await Promise.allSettled(loaders);
+        frameArray.forEach((bitmap) => bitmap?.close());
+        throw error;
+    }
+}
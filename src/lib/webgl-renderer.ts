@@ -0,0 +1,387 @@
+import { BlendMode, findNearestFrame, FrameLayout, getBlendFrames, getFrameRect } from "@/lib/canvas-renderer";
+import { createTextMaskRenderer, EffectParams, NO_EFFECTS } from "@/lib/frame-effects";
+
+/**
+ * Draws frames with WebGL, blending adjacent frames on the GPU. In "webgl"
+ * mode the fragment shader estimates local motion between the two frames
+ * (single-level Lucas-Kanade optical flow) and warps both towards the
+ * in-between position before mixing them, so moving edges slide instead of
+ * ghosting. Frame effects (blur, color grading, vignette, text masks) are
+ * applied in the same pass. Works on both <canvas> and OffscreenCanvas.
+ */
+
+/** How many uploaded frames to keep as textures; scrolling mostly revisits neighbours. */
+const TEXTURE_CACHE_SIZE = 6;
+
+const VERTEX_SHADER = `
+attribute vec2 a_position;
+uniform vec4 u_rect;
+uniform vec2 u_canvas;
+varying vec2 v_uv;
+varying vec2 v_canvas;
+
+void main() {
+    // a_position spans the image (0-1); place it in the frame rect (canvas pixels)
+    vec2 pixel = u_rect.xy + a_position * u_rect.zw;
+    v_canvas = pixel / u_canvas;
+    vec2 clip = v_canvas * 2.0 - 1.0;
+    gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+    v_uv = a_position;
+}
+`;
+
+const FRAGMENT_SHADER = `
+precision mediump float;
+
+uniform sampler2D u_from;
+uniform sampler2D u_to;
+uniform float u_mix;
+uniform float u_motion;
+uniform vec2 u_texel;
+varying vec2 v_uv;
+varying vec2 v_canvas;
+
+// Effects; see EffectParams. u_blur is in texels
+uniform float u_blur;
+uniform float u_brightness;
+uniform float u_contrast;
+uniform float u_saturation;
+uniform float u_hue;
+uniform float u_grayscale;
+uniform float u_sepia;
+uniform float u_vignette;
+uniform sampler2D u_mask;
+uniform float u_useMask;
+
+const vec3 LUMA = vec3(0.299, 0.587, 0.114);
+// What CSS filters weigh channels by
+const vec3 REC709 = vec3(0.2126, 0.7152, 0.0722);
+
+// Distance (in texels) between flow samples; wider catches bigger motion
+const float SPACING = 3.0;
+// Largest displacement (in texels) we trust from a single-level estimate
+const float MAX_FLOW = 16.0;
+
+float luma(sampler2D tex, vec2 uv) {
+    return dot(texture2D(tex, uv).rgb, LUMA);
+}
+
+// Solves for the displacement (in texels) that carries u_from onto u_to near uv
+vec2 estimateFlow(vec2 uv) {
+    vec2 dx = vec2(u_texel.x * SPACING, 0.0);
+    vec2 dy = vec2(0.0, u_texel.y * SPACING);
+    float ixx = 0.0, iyy = 0.0, ixy = 0.0, ixt = 0.0, iyt = 0.0;
+
+    for (int y = -1; y <= 1; y++) {
+        for (int x = -1; x <= 1; x++) {
+            vec2 p = uv + float(x) * dx + float(y) * dy;
+            float ix = (luma(u_from, p + dx) - luma(u_from, p - dx)) / (2.0 * SPACING);
+            float iy = (luma(u_from, p + dy) - luma(u_from, p - dy)) / (2.0 * SPACING);
+            float it = luma(u_to, p) - luma(u_from, p);
+            ixx += ix * ix;
+            iyy += iy * iy;
+            ixy += ix * iy;
+            ixt += ix * it;
+            iyt += iy * it;
+        }
+    }
+
+    // Flat areas have no usable gradient; don't move them
+    float det = ixx * iyy - ixy * ixy;
+    if (det < 1e-7) return vec2(0.0);
+
+    vec2 flow = -vec2(iyy * ixt - ixy * iyt, ixx * iyt - ixy * ixt) / det;
+    float len = length(flow);
+    return len > MAX_FLOW ? flow * (MAX_FLOW / len) : flow;
+}
+
+// A 5x5 Gaussian spread over u_blur texels
+vec4 sampleFrame(sampler2D tex, vec2 uv) {
+    if (u_blur <= 0.0) return texture2D(tex, uv);
+
+    vec4 sum = vec4(0.0);
+    float total = 0.0;
+    for (int y = -2; y <= 2; y++) {
+        for (int x = -2; x <= 2; x++) {
+            float weight = exp(-float(x * x + y * y) / 4.5);
+            sum += texture2D(tex, uv + vec2(float(x), float(y)) * u_texel * u_blur / 2.0) * weight;
+            total += weight;
+        }
+    }
+    return sum / total;
+}
+
+// Same order and formulas as the CSS filters the 2D canvas uses
+vec3 grade(vec3 color) {
+    color *= u_brightness;
+    color = (color - 0.5) * u_contrast + 0.5;
+    color = mix(vec3(dot(color, REC709)), color, u_saturation);
+
+    if (u_hue != 0.0) {
+        float c = cos(radians(u_hue));
+        float s = sin(radians(u_hue));
+        mat3 rotate = mat3(
+            0.213 + c * 0.787 - s * 0.213, 0.213 - c * 0.213 + s * 0.143, 0.213 - c * 0.213 - s * 0.787,
+            0.715 - c * 0.715 - s * 0.715, 0.715 + c * 0.285 + s * 0.140, 0.715 - c * 0.715 + s * 0.715,
+            0.072 - c * 0.072 + s * 0.928, 0.072 - c * 0.072 - s * 0.283, 0.072 + c * 0.928 + s * 0.072
+        );
+        color = rotate * color;
+    }
+
+    color = mix(color, vec3(dot(color, REC709)), u_grayscale);
+    vec3 sepia = vec3(
+        dot(color, vec3(0.393, 0.769, 0.189)),
+        dot(color, vec3(0.349, 0.686, 0.168)),
+        dot(color, vec3(0.272, 0.534, 0.131))
+    );
+    color = mix(color, sepia, u_sepia);
+
+    // Elliptical, like drawVignette: clear inside half the way to the edges
+    float edge = length((v_canvas - 0.5) * 2.0);
+    color *= 1.0 - u_vignette * clamp((edge - 0.5) / (sqrt(2.0) - 0.5), 0.0, 1.0);
+    return clamp(color, 0.0, 1.0);
+}
+
+void main() {
+    vec2 offset = vec2(0.0);
+    if (u_motion > 0.5 && u_mix > 0.0 && u_mix < 1.0) {
+        offset = estimateFlow(v_uv) * u_texel;
+    }
+
+    vec4 from = sampleFrame(u_from, v_uv - offset * u_mix);
+    vec4 to = u_mix > 0.0 ? sampleFrame(u_to, v_uv + offset * (1.0 - u_mix)) : from;
+    vec4 color = mix(from, to, u_mix);
+
+    color.rgb = grade(color.rgb);
+    if (u_useMask > 0.5) color.a *= texture2D(u_mask, v_canvas).a;
+    gl_FragColor = color;
+}
+`;
+
+export interface WebGLFrameRenderer {
+    /** Call after the canvas' backing size changes; `dpr` sizes blurs. */
+    resize: (dpr: number) => void;
+    draw: (
+        frames: ReadonlyArray<ImageBitmap | undefined>,
+        position: number,
+        blend: BlendMode,
+        layout?: FrameLayout,
+        effects?: EffectParams
+    ) => void;
+    /** Frees every GL object; the context itself stays attached to the canvas. */
+    dispose: () => void;
+}
+
+function compileShader(gl: WebGLRenderingContext, type: number, source: string): WebGLShader {
+    const shader = gl.createShader(type);
+    if (!shader) throw new Error("Could not create a WebGL shader");
+
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+        const log = gl.getShaderInfoLog(shader);
+        gl.deleteShader(shader);
+        throw new Error(`Could not compile WebGL shader: ${log}`);
+    }
+    return shader;
+}
+
+function createProgram(gl: WebGLRenderingContext): WebGLProgram {
+    const program = gl.createProgram();
+    if (!program) throw new Error("Could not create a WebGL program");
+
+    const vertex = compileShader(gl, gl.VERTEX_SHADER, VERTEX_SHADER);
+    const fragment = compileShader(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER);
+    gl.attachShader(program, vertex);
+    gl.attachShader(program, fragment);
+    gl.linkProgram(program);
+    gl.deleteShader(vertex);
+    gl.deleteShader(fragment);
+
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+        const log = gl.getProgramInfoLog(program);
+        gl.deleteProgram(program);
+        throw new Error(`Could not link WebGL program: ${log}`);
+    }
+    return program;
+}
+
+/**
+ * Creates a WebGL renderer for the canvas. Returns null if WebGL isn't
+ * available or the canvas already has a different kind of context, so
+ * callers can fall back to 2D drawing.
+ */
+export function createWebGLFrameRenderer(canvas: HTMLCanvasElement | OffscreenCanvas): WebGLFrameRenderer | null {
+    const gl = (canvas as HTMLCanvasElement).getContext("webgl", { premultipliedAlpha: false });
+    if (!gl) return null;
+
+    let program: WebGLProgram;
+    try {
+        program = createProgram(gl);
+    } catch (err) {
+        console.warn(err);
+        return null;
+    }
+
+    // A unit quad; the vertex shader stretches it over the frame rect
+    const buffer = gl.createBuffer();
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([0, 0, 1, 0, 0, 1, 1, 1]), gl.STATIC_DRAW);
+
+    gl.useProgram(program);
+    const position = gl.getAttribLocation(program, "a_position");
+    gl.enableVertexAttribArray(position);
+    gl.vertexAttribPointer(position, 2, gl.FLOAT, false, 0, 0);
+
+    const uniforms = {
+        rect: gl.getUniformLocation(program, "u_rect"),
+        canvas: gl.getUniformLocation(program, "u_canvas"),
+        from: gl.getUniformLocation(program, "u_from"),
+        to: gl.getUniformLocation(program, "u_to"),
+        mix: gl.getUniformLocation(program, "u_mix"),
+        motion: gl.getUniformLocation(program, "u_motion"),
+        texel: gl.getUniformLocation(program, "u_texel"),
+        blur: gl.getUniformLocation(program, "u_blur"),
+        brightness: gl.getUniformLocation(program, "u_brightness"),
+        contrast: gl.getUniformLocation(program, "u_contrast"),
+        saturation: gl.getUniformLocation(program, "u_saturation"),
+        hue: gl.getUniformLocation(program, "u_hue"),
+        grayscale: gl.getUniformLocation(program, "u_grayscale"),
+        sepia: gl.getUniformLocation(program, "u_sepia"),
+        vignette: gl.getUniformLocation(program, "u_vignette"),
+        mask: gl.getUniformLocation(program, "u_mask"),
+        useMask: gl.getUniformLocation(program, "u_useMask"),
+    };
+    gl.uniform1i(uniforms.from, 0);
+    gl.uniform1i(uniforms.to, 1);
+    gl.uniform1i(uniforms.mask, 2);
+
+    let dpr = 1;
+
+    /**
+     * Text masks are drawn on a 2D canvas and uploaded when they change.
+     */
+    const masks = createTextMaskRenderer();
+    const maskTexture = gl.createTexture();
+    let uploadedMask: HTMLCanvasElement | OffscreenCanvas | null = null;
+    let uploadedMaskKey = "";
+
+    /**
+     * Uploaded frames, least recently used first. Uploading a full-size frame
+     * is the expensive part, so we avoid re-uploading while scrolling back and forth.
+     */
+    const textures = new Map<ImageBitmap, WebGLTexture>();
+
+    const setTextureParameters = () => {
+        // Frames are rarely power-of-two sized, which WebGL 1 only supports without mipmaps or wrapping
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    };
+
+    const getTexture = (bitmap: ImageBitmap): WebGLTexture | null => {
+        const cached = textures.get(bitmap);
+        if (cached) {
+            textures.delete(bitmap);
+            textures.set(bitmap, cached);
+            return cached;
+        }
+
+        const texture = gl.createTexture();
+        if (!texture) return null;
+        gl.bindTexture(gl.TEXTURE_2D, texture);
+        setTextureParameters();
+        gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, bitmap);
+        textures.set(bitmap, texture);
+
+        // Evict the least recently used texture
+        if (textures.size > TEXTURE_CACHE_SIZE) {
+            const [oldest, oldTexture] = textures.entries().next().value!;
+            gl.deleteTexture(oldTexture);
+            textures.delete(oldest);
+        }
+        return texture;
+    };
+
+    /**
+     * Binds the current mask to texture unit 2, uploading it if it changed.
+     * Returns false if there's no mask to apply.
+     */
+    const bindMask = (effects: EffectParams, width: number, height: number): boolean => {
+        const mask = effects.mask && maskTexture ? masks.render(effects.mask, width, height) : null;
+        if (!mask) return false;
+
+        const { text, font, amount } = effects.mask!;
+        const key = `${text}|${font}|${amount}|${width}x${height}`;
+        gl.activeTexture(gl.TEXTURE2);
+        gl.bindTexture(gl.TEXTURE_2D, maskTexture);
+        if (mask !== uploadedMask || key !== uploadedMaskKey) {
+            setTextureParameters();
+            gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, mask);
+            uploadedMask = mask;
+            uploadedMaskKey = key;
+        }
+        return true;
+    };
+
+    return {
+        resize(next) {
+            dpr = next;
+        },
+
+        draw(frames, framePosition, blend, layout, effects = NO_EFFECTS) {
+            if (gl.isContextLost()) return;
+
+            // "none" snaps by drawing the nearest frame against itself
+            const nearest = blend === "none" ? findNearestFrame(frames, Math.round(framePosition)) : undefined;
+            const blended = nearest ? { from: nearest, to: nearest, mix: 0 } : getBlendFrames(frames, framePosition);
+            if (!blended) return;
+            const { from, to, mix } = blended;
+
+            const fromTexture = getTexture(from);
+            const toTexture = getTexture(to);
+            if (!fromTexture || !toTexture) return;
+
+            const { width, height } = gl.canvas;
+            const rect = getFrameRect(from.width, from.height, width, height, layout);
+
+            gl.viewport(0, 0, width, height);
+            gl.clearColor(0, 0, 0, 0);
+            gl.clear(gl.COLOR_BUFFER_BIT);
+
+            gl.useProgram(program);
+            gl.uniform4f(uniforms.rect, rect.x, rect.y, rect.width, rect.height);
+            gl.uniform2f(uniforms.canvas, width, height);
+            gl.uniform1f(uniforms.mix, mix);
+            gl.uniform1f(uniforms.motion, blend === "webgl" ? 1 : 0);
+            gl.uniform2f(uniforms.texel, 1 / from.width, 1 / from.height);
+
+            // Blur is given in CSS pixels; convert to frame texels
+            gl.uniform1f(uniforms.blur, effects.blur * dpr * (from.width / rect.width));
+            gl.uniform1f(uniforms.brightness, effects.brightness);
+            gl.uniform1f(uniforms.contrast, effects.contrast);
+            gl.uniform1f(uniforms.saturation, effects.saturation);
+            gl.uniform1f(uniforms.hue, effects.hue);
+            gl.uniform1f(uniforms.grayscale, effects.grayscale);
+            gl.uniform1f(uniforms.sepia, effects.sepia);
+            gl.uniform1f(uniforms.vignette, effects.vignette);
+            gl.uniform1f(uniforms.useMask, bindMask(effects, width, height) ? 1 : 0);
+
+            gl.activeTexture(gl.TEXTURE0);
+            gl.bindTexture(gl.TEXTURE_2D, fromTexture);
+            gl.activeTexture(gl.TEXTURE1);
+            gl.bindTexture(gl.TEXTURE_2D, toTexture);
+
+            gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+        },
+
+        dispose() {
+            textures.forEach((texture) => gl.deleteTexture(texture));
+            textures.clear();
+            gl.deleteTexture(maskTexture);
+            gl.deleteBuffer(buffer);
+            gl.deleteProgram(program);
+        },
+    };
+}
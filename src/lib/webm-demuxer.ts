@@ -0,0 +1,368 @@
+/**
+ * A minimal, pure-TS WebM (Matroska) demuxer. It only understands as much of
+ * the EBML tree as we need to feed a single video track into `VideoDecoder`:
+ * segment info, track entries and the blocks stored inside clusters.
+ */
+
+export interface EncodedPacket {
+    /** Raw (compressed) frame data. */
+    data: Uint8Array;
+    /** Presentation timestamp in microseconds. */
+    timestamp: number;
+    isKey: boolean;
+}
+
+export interface DemuxedVideo {
+    /** A WebCodecs codec string, e.g. "vp8" or "vp09.00.10.08". */
+    codec: string;
+    /** Codec specific setup data (CodecPrivate), if the track has any. */
+    description?: Uint8Array;
+    width: number;
+    height: number;
+    /** Duration in seconds. */
+    duration: number;
+    /**
+     * Video packets in decode order (as stored in the file), which is what
+     * VideoDecoder needs. Timestamps can go backwards where frames are reordered.
+     */
+    packets: EncodedPacket[];
+}
+
+// EBML element IDs (marker bits included, as they appear in the file)
+const ID_EBML = 0x1a45dfa3;
+const ID_SEGMENT = 0x18538067;
+const ID_INFO = 0x1549a966;
+const ID_TIMECODE_SCALE = 0x2ad7b1;
+const ID_DURATION = 0x4489;
+const ID_TRACKS = 0x1654ae6b;
+const ID_TRACK_ENTRY = 0xae;
+const ID_TRACK_NUMBER = 0xd7;
+const ID_TRACK_TYPE = 0x83;
+const ID_CODEC_ID = 0x86;
+const ID_CODEC_PRIVATE = 0x63a2;
+const ID_VIDEO = 0xe0;
+const ID_PIXEL_WIDTH = 0xb0;
+const ID_PIXEL_HEIGHT = 0xba;
+const ID_CLUSTER = 0x1f43b675;
+const ID_CLUSTER_TIMECODE = 0xe7;
+const ID_SIMPLE_BLOCK = 0xa3;
+const ID_BLOCK_GROUP = 0xa0;
+const ID_BLOCK = 0xa1;
+const ID_REFERENCE_BLOCK = 0xfb;
+
+/**
+ * Top-level children of a Segment. When a cluster has an unknown size, we stop
+ * reading it as soon as one of these shows up.
+ */
+const SEGMENT_CHILDREN = new Set([
+    0x114d9b74, // SeekHead
+    ID_INFO,
+    ID_TRACKS,
+    ID_CLUSTER,
+    0x1c53bb6b, // Cues
+    0x1941a469, // Attachments
+    0x1043a770, // Chapters
+    0x1254c367, // Tags
+]);
+
+const TRACK_TYPE_VIDEO = 1;
+
+/**
+ * Maps Matroska codec IDs to WebCodecs codec strings. The profile/level parts
+ * are generic; decoders only use them to decide whether they can handle the
+ * stream at all.
+ */
+const CODECS: Record<string, string> = {
+    V_VP8: "vp8",
+    V_VP9: "vp09.00.10.08",
+    V_AV1: "av01.0.08M.08",
+};
+
+interface Element {
+    id: number;
+    /** Offset of the element's payload. */
+    start: number;
+    /** Offset just past the payload (clamped to the buffer for unknown sizes). */
+    end: number;
+    unknownSize: boolean;
+}
+
+interface VideoTrack {
+    number: number;
+    codecId: string;
+    codecPrivate?: Uint8Array;
+    width: number;
+    height: number;
+}
+
+class EbmlReader {
+    private view: DataView;
+    private bytes: Uint8Array;
+
+    constructor(buffer: ArrayBuffer) {
+        this.view = new DataView(buffer);
+        this.bytes = new Uint8Array(buffer);
+    }
+
+    get length() {
+        return this.bytes.length;
+    }
+
+    /**
+     * Reads a variable-length integer. IDs keep their length marker bits,
+     * sizes don't.
+     */
+    readVint(offset: number, keepMarker: boolean): { value: number; length: number; allOnes: boolean } {
+        const first = this.bytes[offset];
+        if (first === undefined || first === 0) {
+            throw new Error(`Invalid EBML variable-length integer at offset ${offset}`);
+        }
+
+        let length = 1;
+        let mask = 0x80;
+        while (!(first & mask)) {
+            mask >>= 1;
+            length++;
+        }
+
+        let value = keepMarker ? first : first & (mask - 1);
+        let allOnes = (first & (mask - 1)) === mask - 1;
+        for (let i = 1; i < length; i++) {
+            const byte = this.bytes[offset + i];
+            if (byte !== 0xff) allOnes = false;
+            // Multiplication instead of shifting so values above 2^31 survive
+            value = value * 256 + byte;
+        }
+
+        return { value, length, allOnes };
+    }
+
+    readElement(offset: number, parentEnd: number): Element {
+        const id = this.readVint(offset, true);
+        const size = this.readVint(offset + id.length, false);
+        const start = offset + id.length + size.length;
+        const unknownSize = size.allOnes;
+        const end = unknownSize ? parentEnd : Math.min(start + size.value, parentEnd);
+        return { id: id.value, start, end, unknownSize };
+    }
+
+    readUint(element: Element): number {
+        let value = 0;
+        for (let i = element.start; i < element.end; i++) {
+            value = value * 256 + this.bytes[i];
+        }
+        return value;
+    }
+
+    readFloat(element: Element): number {
+        const size = element.end - element.start;
+        if (size === 4) return this.view.getFloat32(element.start);
+        if (size === 8) return this.view.getFloat64(element.start);
+        return 0;
+    }
+
+    readString(element: Element): string {
+        return new TextDecoder("ascii")
+            .decode(this.bytes.subarray(element.start, element.end))
+            .replace(/\0+$/, "");
+    }
+
+    readBytes(start: number, end: number): Uint8Array {
+        return this.bytes.slice(start, end);
+    }
+
+    readInt16(offset: number): number {
+        return this.view.getInt16(offset);
+    }
+
+    readByte(offset: number): number {
+        return this.bytes[offset];
+    }
+
+    /**
+     * Iterates over the children of the range [start, end).
+     */
+    *children(start: number, end: number): Generator<Element> {
+        let offset = start;
+        while (offset < end) {
+            const element = this.readElement(offset, end);
+            yield element;
+            offset = element.end;
+        }
+    }
+}
+
+/**
+ * Returns true if the buffer starts with an EBML header, i.e. looks like a
+ * WebM/Matroska file.
+ */
+export function isWebM(buffer: ArrayBuffer): boolean {
+    if (buffer.byteLength < 4) return false;
+    return new DataView(buffer).getUint32(0) === ID_EBML;
+}
+
+/**
+ * Parses a WebM file and returns the packets of its first video track, ready
+ * to be wrapped in `EncodedVideoChunk`s.
+ */
+export function demuxWebM(buffer: ArrayBuffer): DemuxedVideo {
+    if (!isWebM(buffer)) {
+        throw new Error("Not a WebM file");
+    }
+
+    const reader = new EbmlReader(buffer);
+
+    let segment: Element | undefined;
+    for (const element of reader.children(0, reader.length)) {
+        if (element.id === ID_SEGMENT) {
+            segment = element;
+            break;
+        }
+    }
+    if (!segment) {
+        throw new Error("WebM file has no Segment");
+    }
+
+    let timecodeScale = 1_000_000; // nanoseconds per tick (Matroska default)
+    let durationTicks: number | undefined;
+    let track: VideoTrack | undefined;
+    const blocks: Array<{ data: Uint8Array; ticks: number; isKey: boolean }> = [];
+
+    const readBlock = (start: number, end: number, clusterTicks: number, isKey: boolean | undefined) => {
+        const trackNumber = reader.readVint(start, false);
+        if (!track || trackNumber.value !== track.number) return;
+
+        let offset = start + trackNumber.length;
+        const relativeTicks = reader.readInt16(offset);
+        const flags = reader.readByte(offset + 2);
+        offset += 3;
+
+        // Laced blocks are practically unused for video; skip rather than misparse them
+        if (flags & 0x06) return;
+
+        blocks.push({
+            data: reader.readBytes(offset, end),
+            ticks: clusterTicks + relativeTicks,
+            // SimpleBlocks carry a keyframe flag, BlockGroups signal it by lacking a ReferenceBlock
+            isKey: isKey ?? (flags & 0x80) !== 0,
+        });
+    };
+
+    let offset = segment.start;
+    while (offset < segment.end) {
+        const element = reader.readElement(offset, segment.end);
+
+        switch (element.id) {
+            case ID_INFO:
+                for (const child of reader.children(element.start, element.end)) {
+                    if (child.id === ID_TIMECODE_SCALE) timecodeScale = reader.readUint(child);
+                    else if (child.id === ID_DURATION) durationTicks = reader.readFloat(child);
+                }
+                break;
+
+            case ID_TRACKS:
+                for (const entry of reader.children(element.start, element.end)) {
+                    if (entry.id !== ID_TRACK_ENTRY || track) continue;
+                    track = readTrackEntry(reader, entry);
+                }
+                break;
+
+            case ID_CLUSTER: {
+                let clusterTicks = 0;
+                let childOffset = element.start;
+                while (childOffset < element.end) {
+                    const child = reader.readElement(childOffset, element.end);
+                    if (element.unknownSize && SEGMENT_CHILDREN.has(child.id)) {
+                        // Unknown-sized cluster ends where the next top-level element starts
+                        element.end = childOffset;
+                        break;
+                    }
+
+                    if (child.id === ID_CLUSTER_TIMECODE) {
+                        clusterTicks = reader.readUint(child);
+                    } else if (child.id === ID_SIMPLE_BLOCK) {
+                        readBlock(child.start, child.end, clusterTicks, undefined);
+                    } else if (child.id === ID_BLOCK_GROUP) {
+                        let block: Element | undefined;
+                        let hasReference = false;
+                        for (const groupChild of reader.children(child.start, child.end)) {
+                            if (groupChild.id === ID_BLOCK) block = groupChild;
+                            else if (groupChild.id === ID_REFERENCE_BLOCK) hasReference = true;
+                        }
+                        if (block) readBlock(block.start, block.end, clusterTicks, !hasReference);
+                    }
+                    childOffset = child.end;
+                }
+                break;
+            }
+        }
+
+        offset = element.end;
+    }
+
+    if (!track) {
+        throw new Error("WebM file has no video track");
+    }
+
+    const codec = CODECS[track.codecId];
+    if (!codec) {
+        throw new Error(`Unsupported WebM codec: ${track.codecId}`);
+    }
+
+    const ticksToMicroseconds = timecodeScale / 1000;
+    const packets = blocks.map((block) => ({
+        data: block.data,
+        timestamp: Math.round(block.ticks * ticksToMicroseconds),
+        isKey: block.isKey,
+    }));
+
+    const lastTimestamp = packets.reduce((last, packet) => Math.max(last, packet.timestamp), 0);
+    const duration = durationTicks != null
+        ? (durationTicks * timecodeScale) / 1e9
+        : lastTimestamp / 1e6;
+
+    return {
+        codec,
+        // VP8/VP9 decoders don't take a description, AV1 expects the av1C record
+        description: codec.startsWith("av01") ? track.codecPrivate : undefined,
+        width: track.width,
+        height: track.height,
+        duration,
+        packets,
+    };
+}
+
+function readTrackEntry(reader: EbmlReader, entry: Element): VideoTrack | undefined {
+    let number = 0;
+    let type = 0;
+    let codecId = "";
+    let codecPrivate: Uint8Array | undefined;
+    let width = 0;
+    let height = 0;
+
+    for (const child of reader.children(entry.start, entry.end)) {
+        switch (child.id) {
+            case ID_TRACK_NUMBER:
+                number = reader.readUint(child);
+                break;
+            case ID_TRACK_TYPE:
+                type = reader.readUint(child);
+                break;
+            case ID_CODEC_ID:
+                codecId = reader.readString(child);
+                break;
+            case ID_CODEC_PRIVATE:
+                codecPrivate = reader.readBytes(child.start, child.end);
+                break;
+            case ID_VIDEO:
+                for (const videoChild of reader.children(child.start, child.end)) {
+                    if (videoChild.id === ID_PIXEL_WIDTH) width = reader.readUint(videoChild);
+                    else if (videoChild.id === ID_PIXEL_HEIGHT) height = reader.readUint(videoChild);
+                }
+                break;
+        }
+    }
+
+    if (type !== TRACK_TYPE_VIDEO) return undefined;
+    return { number, codecId, codecPrivate, width, height };
+}
@@ -1,12 +1,17 @@
 import { StrictMode } from 'react'
-import { createRoot } from 'react-dom/client'
+import { createRoot, hydrateRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
 import CustomCursor from './components/custom-cursor.tsx'
 
-createRoot(document.getElementById('root')!).render(
+const root = document.getElementById('root')!
+const app = (
     <StrictMode>
         <App />
         <CustomCursor />
-    </StrictMode>,
+    </StrictMode>
 )
+
+// Builds prerender the page (see entry-server.tsx); the dev server serves an empty root
+if (root.hasChildNodes()) hydrateRoot(root, app)
+else createRoot(root).render(app)
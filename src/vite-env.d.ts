@@ -1 +1,16 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+    /** Where analytics batches are sent. Without it, they're logged in development and dropped in production. */
+    readonly VITE_ANALYTICS_ENDPOINT?: string;
+}
+
+declare module "*?frames" {
+    const manifest: import("@/lib/frame-manifest").FrameManifest;
+    export default manifest;
+}
+
+declare module "*.story.json" {
+    const story: import("@/lib/story").Story;
+    export default story;
+}
@@ -0,0 +1,81 @@
+import { ExtractorRequest, ExtractorResponse } from "@/lib/frame-worker";
+import { ScrollyVideoError } from "@/lib/video-errors";
+import { extractFramesWithWebCodecs } from "@/lib/video-helpers";
+
+/**
+ * Dedicated worker that extracts and downscales frames off the main thread.
+ * Bitmaps are transferred (not copied) back to the page one at a time.
+ */
+
+const controllers = new Map<number, AbortController>();
+
+// Reused across "scale" requests; resized as needed
+let scaleCanvas: OffscreenCanvas | null = null;
+
+function post(response: ExtractorResponse, transfer: Transferable[] = []) {
+    self.postMessage(response, { transfer });
+}
+
+function postError(id: number, error: unknown) {
+    post({
+        type: "error",
+        id,
+        message: error instanceof Error ? error.message : String(error),
+        aborted: error instanceof DOMException && error.name === "AbortError",
+        kind: error instanceof ScrollyVideoError ? error.kind : undefined,
+    });
+}
+
+async function extract(id: number, request: Extract<ExtractorRequest, { type: "extract" }>) {
+    const controller = new AbortController();
+    controllers.set(id, controller);
+
+    try {
+        // Each bitmap is transferred as soon as it's ready, so the page can show it
+        const frames = await extractFramesWithWebCodecs(request.url, {
+            ...request.options,
+            signal: controller.signal,
+            onProgress: (progress) => post({ type: "progress", id, progress }),
+            onFrame: (index, bitmap, total) => post({ type: "frame", id, index, bitmap, total }, [bitmap]),
+        });
+        post({ type: "done", id, total: frames.length });
+    } catch (error) {
+        postError(id, error);
+    } finally {
+        controllers.delete(id);
+    }
+}
+
+function scale({ id, bitmap, width, height }: Extract<ExtractorRequest, { type: "scale" }>) {
+    try {
+        if (!scaleCanvas) scaleCanvas = new OffscreenCanvas(width, height);
+        scaleCanvas.width = width;
+        scaleCanvas.height = height;
+
+        const ctx = scaleCanvas.getContext("2d");
+        if (!ctx) throw new Error("Could not create a 2D context for frame scaling");
+
+        ctx.drawImage(bitmap, 0, 0, width, height);
+        const scaled = scaleCanvas.transferToImageBitmap();
+        post({ type: "scaled", id, bitmap: scaled }, [scaled]);
+    } catch (error) {
+        postError(id, error);
+    } finally {
+        bitmap.close();
+    }
+}
+
+self.onmessage = (event: MessageEvent<ExtractorRequest>) => {
+    const request = event.data;
+    switch (request.type) {
+        case "extract":
+            extract(request.id, request);
+            break;
+        case "scale":
+            scale(request);
+            break;
+        case "abort":
+            controllers.get(request.id)?.abort();
+            break;
+    }
+};
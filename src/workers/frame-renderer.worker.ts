@@ -0,0 +1,60 @@
+import { BlendMode, FrameLayout } from "@/lib/canvas-renderer";
+import { createFrameDrawer, FrameDrawer } from "@/lib/frame-drawer";
+import { EffectParams } from "@/lib/frame-effects";
+import { RendererRequest } from "@/lib/frame-worker";
+
+/**
+ * Worker that owns an OffscreenCanvas transferred from ScrollyVideo and draws
+ * frames into it, so scroll-driven drawing never blocks input on the page.
+ */
+
+let canvas: OffscreenCanvas | null = null;
+let drawer: FrameDrawer | null = null;
+let frames: ImageBitmap[] = [];
+let currentPosition = 0;
+let currentBlend: BlendMode = "none";
+let currentLayout: FrameLayout | undefined;
+let currentEffects: EffectParams | undefined;
+
+function draw(position: number, blend: BlendMode, layout?: FrameLayout, effects?: EffectParams) {
+    currentPosition = position;
+    currentBlend = blend;
+    currentLayout = layout;
+    currentEffects = effects;
+    drawer?.draw(frames, position, blend, layout, effects);
+}
+
+self.onmessage = (event: MessageEvent<RendererRequest>) => {
+    const request = event.data;
+    switch (request.type) {
+        case "init":
+            canvas = request.canvas;
+            drawer = createFrameDrawer(canvas, request.blend);
+            currentBlend = request.blend;
+            break;
+
+        case "resize": {
+            if (!canvas) break;
+            canvas.width = request.width * request.dpr;
+            canvas.height = request.height * request.dpr;
+            // Resizing resets the context, so re-apply the DPR scale
+            drawer?.resize(request.dpr);
+            draw(currentPosition, currentBlend, currentLayout, currentEffects);
+            break;
+        }
+
+        case "reset":
+            frames.forEach((bitmap) => bitmap.close());
+            frames = [];
+            break;
+
+        case "frame":
+            frames[request.index] = request.bitmap;
+            draw(currentPosition, currentBlend, currentLayout, currentEffects);
+            break;
+
+        case "draw":
+            draw(request.position, request.blend, request.layout, request.effects);
+            break;
+    }
+};
@@ -2,6 +2,10 @@ import path from "path";
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react-swc'
 import tailwindcss from '@tailwindcss/vite'
+import errorFixtures from './plugins/error-fixtures'
+import frameSequence from './plugins/frame-sequence'
+import prerender from './plugins/prerender'
+import storyContent from './plugins/story-content'
 
 // https://vite.dev/config/
 export default defineConfig({
@@ -9,6 +13,10 @@ export default defineConfig({
     plugins: [
         react(),
         tailwindcss(),
+        frameSequence(),
+        storyContent(),
+        errorFixtures(),
+        prerender({ siteUrl: "https://macrosacramento.github.io/web-design-demo/" }),
     ],
     resolve: {
         alias: {